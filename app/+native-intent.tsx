@@ -0,0 +1,17 @@
+import { isAppDeepLink } from '@/services/deepLink';
+
+/**
+ * App links are parsed and routed by DeepLinkHandler once the wallet is unlocked,
+ * so keep the router from treating them as paths. Everything else passes through.
+ */
+export function redirectSystemPath({ path, initial }: { path: string; initial: boolean }) {
+  try {
+    if (isAppDeepLink(path)) {
+      // A cold start still needs a screen to render
+      return initial ? '/' : '';
+    }
+    return path;
+  } catch {
+    return '/';
+  }
+}
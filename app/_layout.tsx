@@ -5,6 +5,8 @@ import { Provider } from 'react-redux';
 import 'react-native-reanimated';
 import '../global.css';
 
+import { DeepLinkHandler } from '@/components/deep-link-handler';
+import { PrivacyGuard } from '@/components/privacy-guard';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { store } from '@/store';
 
@@ -14,6 +16,7 @@ export default function RootLayout() {
   return (
     <Provider store={store}>
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+      <PrivacyGuard>
       <Stack>
         <Stack.Screen name="index" options={{ headerShown: false }} />
         <Stack.Screen name="wallet" options={{ headerShown: false }} />
@@ -22,8 +25,15 @@ export default function RootLayout() {
         <Stack.Screen name="create-wallet" options={{ presentation: 'modal', title: 'Create Wallet' }} />
         <Stack.Screen name="import-wallet" options={{ presentation: 'modal', title: 'Import Wallet' }} />
         <Stack.Screen name="set-password" options={{ presentation: 'modal', headerShown: false }} />
+        <Stack.Screen name="change-password" options={{ presentation: 'modal', title: 'Change Password' }} />
+        <Stack.Screen name="scan" options={{ presentation: 'fullScreenModal', headerShown: false }} />
+        <Stack.Screen name="address-book" options={{ presentation: 'modal', title: 'Address Book' }} />
+        <Stack.Screen name="backend-settings" options={{ presentation: 'modal', title: 'Backend' }} />
         <Stack.Screen name="create-token" options={{ presentation: 'modal', title: 'Create Token' }} />
+        <Stack.Screen name="transaction/[hash]" options={{ presentation: 'modal', title: 'Transaction' }} />
       </Stack>
+      <DeepLinkHandler />
+      </PrivacyGuard>
       <StatusBar style="auto" />
     </ThemeProvider>
     </Provider>
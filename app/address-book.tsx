@@ -0,0 +1,321 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useLocalSearchParams } from 'expo-router';
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, Clipboard, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { useToast } from '@/components/toast';
+import { addressError, formatAddress } from '@/services/address';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import {
+  clearAddressBookError,
+  Contact,
+  loadAddressBook,
+  parseTags,
+  removeContact,
+  saveContact,
+} from '@/store/slices/addressBookSlice';
+import { NETWORK_OPTIONS, selectNetworkName } from '@/store/slices/networkSlice';
+
+interface ContactDraft {
+  id?: string;
+  name: string;
+  address: string;
+  note: string;
+  tags: string;
+  network: string;
+}
+
+export default function AddressBookScreen() {
+  const dispatch = useAppDispatch();
+  const { showToast, currentToast } = useToast();
+  // Set when opened from the "save this address?" prompt after a send
+  const params = useLocalSearchParams<{ address?: string; network?: string }>();
+  const { contacts, loaded, saving, error } = useAppSelector((state) => state.addressBook);
+  const networkName = useAppSelector(selectNetworkName);
+  const [query, setQuery] = useState('');
+  const [draftAddressError, setDraftAddressError] = useState<string | null>(null);
+  const emptyDraft = (): ContactDraft => ({ name: '', address: '', note: '', tags: '', network: networkName });
+  const [draft, setDraft] = useState<ContactDraft | null>(
+    params.address
+      ? { name: '', address: params.address, note: '', tags: '', network: params.network || networkName }
+      : null
+  );
+
+  useEffect(() => {
+    if (!loaded) {
+      dispatch(loadAddressBook());
+    }
+  }, [loaded, dispatch]);
+
+  useEffect(() => {
+    return () => {
+      dispatch(clearAddressBookError());
+    };
+  }, [dispatch]);
+
+  const visibleContacts = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return contacts;
+    }
+    return contacts.filter(
+      (contact) =>
+        contact.name.toLowerCase().includes(needle) ||
+        contact.address.toLowerCase().includes(needle) ||
+        contact.note.toLowerCase().includes(needle) ||
+        contact.tags.some((tag) => tag.toLowerCase().includes(needle))
+    );
+  }, [contacts, query]);
+
+  // Built-in networks plus whatever custom ones the book already uses
+  const networkChoices = useMemo(() => {
+    const names = new Set<string>(NETWORK_OPTIONS.filter((option) => option !== 'custom'));
+    names.add(networkName);
+    contacts.forEach((contact) => names.add(contact.network));
+    return Array.from(names);
+  }, [contacts, networkName]);
+
+  const updateDraft = (changes: Partial<ContactDraft>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+    if ('address' in changes) {
+      setDraftAddressError(null);
+    }
+    if (error) {
+      dispatch(clearAddressBookError());
+    }
+  };
+
+  const handleEdit = (contact: Contact) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDraft({
+      id: contact.id,
+      name: contact.name,
+      address: contact.address,
+      note: contact.note,
+      tags: contact.tags.join(', '),
+      network: contact.network,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    const result = await dispatch(
+      saveContact({
+        id: draft.id,
+        name: draft.name,
+        address: draft.address,
+        note: draft.note,
+        tags: parseTags(draft.tags),
+        network: draft.network.trim(),
+      })
+    );
+    if (saveContact.fulfilled.match(result)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showToast(draft.id ? 'Contact updated' : 'Contact saved', 'success');
+      setDraft(null);
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const handleRemove = (contact: Contact) => {
+    Alert.alert('Remove Contact', `Remove "${contact.name}" from your address book?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await dispatch(removeContact(contact.id));
+          if (draft?.id === contact.id) {
+            setDraft(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleCopy = (contact: Contact) => {
+    Clipboard.setString(contact.address);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    showToast(`${contact.name}'s address copied`, 'success');
+  };
+
+  return (
+    <View className="flex-1 bg-blue-50">
+      {currentToast}
+      <ScrollView contentContainerStyle={{ padding: 24 }} keyboardShouldPersistTaps="handled">
+        {draft ? (
+          <View className="bg-white border border-gray-200 rounded-2xl p-4 mb-6">
+            <Text className="text-base font-semibold text-black mb-3">
+              {draft.id ? 'Edit Contact' : 'New Contact'}
+            </Text>
+
+            <Text className="text-xs font-semibold text-gray-600 mb-2">Name</Text>
+            <TextInput
+              className="border border-gray-200 rounded-2xl px-4 py-3 text-sm text-gray-900 mb-3"
+              placeholder="e.g. Alice"
+              placeholderTextColor="#9CA3AF"
+              value={draft.name}
+              onChangeText={(name) => updateDraft({ name })}
+              editable={!saving}
+            />
+
+            <Text className="text-xs font-semibold text-gray-600 mb-2">Address</Text>
+            <TextInput
+              className={`border rounded-2xl px-4 py-3 text-sm text-gray-900 font-mono ${
+                draftAddressError ? 'border-red-300 bg-red-50 mb-1' : 'border-gray-200 mb-3'
+              }`}
+              placeholder="keeta_..."
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              autoCorrect={false}
+              value={draft.address}
+              onChangeText={(address) => updateDraft({ address })}
+              onBlur={() => setDraftAddressError(draft.address.trim() ? addressError(draft.address, 'account') : null)}
+              editable={!saving}
+            />
+            {draftAddressError ? <Text className="text-xs text-red-600 mb-3">{draftAddressError}</Text> : null}
+
+            <Text className="text-xs font-semibold text-gray-600 mb-2">Network</Text>
+            <View className="flex-row flex-wrap mb-3">
+              {networkChoices.map((name) => {
+                const selected = draft.network === name;
+                return (
+                  <TouchableOpacity
+                    key={name}
+                    className={`px-3 py-2 rounded-full mr-2 mb-2 border ${
+                      selected ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-200'
+                    }`}
+                    onPress={() => updateDraft({ network: name })}
+                    disabled={saving}
+                  >
+                    <Text className={`text-xs font-semibold ${selected ? 'text-white' : 'text-gray-700'}`}>{name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text className="text-xs font-semibold text-gray-600 mb-2">Tags</Text>
+            <TextInput
+              className="border border-gray-200 rounded-2xl px-4 py-3 text-sm text-gray-900 mb-3"
+              placeholder="Comma separated, e.g. exchange, family"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              value={draft.tags}
+              onChangeText={(tags) => updateDraft({ tags })}
+              editable={!saving}
+            />
+
+            <Text className="text-xs font-semibold text-gray-600 mb-2">Note</Text>
+            <TextInput
+              className="border border-gray-200 rounded-2xl px-4 py-3 text-sm text-gray-900 mb-3"
+              placeholder="Optional"
+              placeholderTextColor="#9CA3AF"
+              value={draft.note}
+              onChangeText={(note) => updateDraft({ note })}
+              multiline
+              editable={!saving}
+            />
+
+            {error ? <Text className="text-sm text-red-600 mb-3">{error}</Text> : null}
+
+            <View className="flex-row">
+              <TouchableOpacity
+                className="flex-1 bg-gray-100 border border-gray-200 rounded-xl py-3 items-center mr-2"
+                onPress={() => setDraft(null)}
+                disabled={saving}
+              >
+                <Text className="text-gray-700 font-semibold">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="flex-1 bg-blue-500 rounded-xl py-3 items-center"
+                onPress={handleSave}
+                disabled={saving}
+                style={{ opacity: saving ? 0.6 : 1 }}
+              >
+                <Text className="text-white font-semibold">{saving ? 'Saving...' : 'Save'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity
+            className="bg-blue-500 py-4 px-8 rounded-2xl w-full items-center shadow-lg mb-6"
+            onPress={() => setDraft(emptyDraft())}
+          >
+            <Text className="text-white text-base font-semibold">Add Contact</Text>
+          </TouchableOpacity>
+        )}
+
+        {contacts.length > 0 && (
+          <TextInput
+            className="bg-white border border-gray-300 rounded-2xl py-3 px-4 text-sm text-gray-900 mb-4"
+            placeholder="Search by name, address, note or tag"
+            placeholderTextColor="#9CA3AF"
+            autoCapitalize="none"
+            value={query}
+            onChangeText={setQuery}
+          />
+        )}
+
+        {loaded && contacts.length === 0 ? (
+          <View className="bg-white rounded-lg p-6 items-center border border-gray-200">
+            <Ionicons name="people-outline" size={48} color="#999" />
+            <Text className="text-gray-500 mt-3 text-center">No contacts yet</Text>
+            <Text className="text-gray-400 text-sm mt-1 text-center">
+              Saved addresses show up as suggestions when you send
+            </Text>
+          </View>
+        ) : (
+          visibleContacts.map((contact) => (
+            <TouchableOpacity
+              key={contact.id}
+              className="bg-white border border-gray-200 rounded-2xl p-4 mb-3"
+              onPress={() => handleEdit(contact)}
+            >
+              <View className="flex-row items-center">
+                <View className="flex-1">
+                  <View className="flex-row items-center">
+                    <Text className="text-black font-semibold text-base">{contact.name}</Text>
+                    <View
+                      className={`px-2 py-0.5 rounded-full ml-2 ${
+                        contact.network === networkName ? 'bg-blue-100' : 'bg-gray-100'
+                      }`}
+                    >
+                      <Text
+                        className={`text-[11px] font-semibold ${
+                          contact.network === networkName ? 'text-blue-700' : 'text-gray-600'
+                        }`}
+                      >
+                        {contact.network}
+                      </Text>
+                    </View>
+                  </View>
+                  <Text className="text-gray-500 text-xs font-mono mt-1">{formatAddress(contact.address, 8)}</Text>
+                </View>
+                <TouchableOpacity className="p-2" onPress={() => handleCopy(contact)}>
+                  <Ionicons name="copy-outline" size={18} color="#2563eb" />
+                </TouchableOpacity>
+                <TouchableOpacity className="p-2" onPress={() => handleRemove(contact)} disabled={saving}>
+                  <Ionicons name="trash-outline" size={18} color="#dc2626" />
+                </TouchableOpacity>
+              </View>
+              {contact.tags.length > 0 && (
+                <View className="flex-row flex-wrap mt-2">
+                  {contact.tags.map((tag) => (
+                    <View key={tag} className="px-2 py-0.5 rounded-full bg-gray-100 mr-1 mb-1">
+                      <Text className="text-[11px] text-gray-600">#{tag}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+              {contact.note ? <Text className="text-gray-500 text-xs mt-1">{contact.note}</Text> : null}
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
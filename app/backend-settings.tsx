@@ -0,0 +1,171 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { DEFAULT_API_BASE_URL } from '@/services/api';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import {
+  addBackendEndpoint,
+  checkEndpointHealth,
+  clearBackendError,
+  loadBackendEndpoints,
+  preferBackendEndpoint,
+  removeBackendEndpoint,
+  resetBackendEndpoints,
+} from '@/store/slices/backendSlice';
+
+export default function BackendSettingsScreen() {
+  const dispatch = useAppDispatch();
+  const { endpoints, activeUrl, health, checking, loaded, saving, error } = useAppSelector(
+    (state) => state.backend
+  );
+  const [draftUrl, setDraftUrl] = useState('');
+
+  useEffect(() => {
+    if (!loaded) {
+      dispatch(loadBackendEndpoints());
+    }
+  }, [loaded, dispatch]);
+
+  // Check every saved endpoint when the screen opens and whenever the list changes
+  useEffect(() => {
+    if (loaded) {
+      endpoints.forEach((url) => dispatch(checkEndpointHealth(url)));
+    }
+  }, [loaded, endpoints, dispatch]);
+
+  useEffect(() => {
+    return () => {
+      dispatch(clearBackendError());
+    };
+  }, [dispatch]);
+
+  const handleAdd = async () => {
+    const result = await dispatch(addBackendEndpoint(draftUrl));
+    if (addBackendEndpoint.fulfilled.match(result)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setDraftUrl('');
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const handlePrefer = async (url: string) => {
+    const result = await dispatch(preferBackendEndpoint(url));
+    if (preferBackendEndpoint.fulfilled.match(result)) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+  };
+
+  const handleRemove = (url: string) => {
+    Alert.alert('Remove Endpoint', `Stop using ${url}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => dispatch(removeBackendEndpoint(url)) },
+    ]);
+  };
+
+  const handleReset = () => {
+    Alert.alert('Reset Endpoints', `Use only the built-in endpoint (${DEFAULT_API_BASE_URL})?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Reset', style: 'destructive', onPress: () => dispatch(resetBackendEndpoints()) },
+    ]);
+  };
+
+  const renderHealth = (url: string) => {
+    if (checking[url]) {
+      return <ActivityIndicator size="small" color="#2563eb" />;
+    }
+    const result = health[url];
+    if (!result) {
+      return null;
+    }
+    return (
+      <Text className={`text-[11px] font-semibold ${result.ok ? 'text-green-600' : 'text-red-600'}`}>
+        {result.ok ? `Online · ${result.latencyMs} ms` : result.message}
+      </Text>
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-blue-50">
+      <ScrollView contentContainerStyle={{ padding: 24 }} keyboardShouldPersistTaps="handled">
+        <Text className="text-base text-gray-600 mb-6">
+          The wallet talks to these endpoints in order. If one can&apos;t be reached, the next healthy one takes over.
+        </Text>
+
+        {endpoints.map((url, index) => {
+          const isActive = url === activeUrl;
+          return (
+            <View
+              key={url}
+              className={`bg-white border rounded-2xl p-4 mb-3 ${isActive ? 'border-blue-500' : 'border-gray-200'}`}
+            >
+              <View className="flex-row items-center mb-1">
+                <Text className="flex-1 text-sm font-mono text-gray-900" numberOfLines={1}>
+                  {url}
+                </Text>
+                {isActive && (
+                  <View className="px-2 py-0.5 rounded-full bg-blue-100 ml-2">
+                    <Text className="text-[11px] font-semibold text-blue-700">In use</Text>
+                  </View>
+                )}
+              </View>
+              <View className="flex-row items-center justify-between mt-1">
+                <View className="flex-1 mr-2">{renderHealth(url)}</View>
+                <TouchableOpacity className="p-2" onPress={() => dispatch(checkEndpointHealth(url))}>
+                  <Ionicons name="pulse-outline" size={18} color="#2563eb" />
+                </TouchableOpacity>
+                {index > 0 && (
+                  <TouchableOpacity className="p-2" onPress={() => handlePrefer(url)} disabled={saving}>
+                    <Ionicons name="arrow-up-circle-outline" size={18} color="#2563eb" />
+                  </TouchableOpacity>
+                )}
+                {endpoints.length > 1 && (
+                  <TouchableOpacity className="p-2" onPress={() => handleRemove(url)} disabled={saving}>
+                    <Ionicons name="trash-outline" size={18} color="#dc2626" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          );
+        })}
+
+        <Text className="text-sm font-semibold text-gray-700 mt-4 mb-2">Add Endpoint</Text>
+        <TextInput
+          className="bg-white border border-gray-300 rounded-2xl py-4 px-4 text-base text-gray-900 mb-3"
+          placeholder="https://wallet.example.com/api/v1"
+          placeholderTextColor="#9CA3AF"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          value={draftUrl}
+          onChangeText={(text) => {
+            setDraftUrl(text);
+            if (error) {
+              dispatch(clearBackendError());
+            }
+          }}
+          editable={!saving}
+        />
+
+        {error ? <Text className="text-sm text-red-600 mb-4">{error}</Text> : null}
+
+        <TouchableOpacity
+          className="bg-blue-500 py-4 px-8 rounded-2xl w-full items-center shadow-lg mb-3"
+          onPress={handleAdd}
+          disabled={saving || !draftUrl.trim()}
+          style={{ opacity: saving || !draftUrl.trim() ? 0.6 : 1 }}
+        >
+          <Text className="text-white text-base font-semibold">
+            {saving ? 'Checking...' : 'Test & Save'}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity className="py-3 items-center" onPress={handleReset} disabled={saving}>
+          <Text className="text-sm text-gray-600 font-semibold">Reset to Default</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
@@ -1,12 +1,17 @@
+import { ReauthPrompt } from '@/components/reauth-prompt';
+import { copySensitive, SENSITIVE_CLIPBOARD_TIMEOUT_MS } from '@/services/clipboard';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { loadWalletFromStorage } from '@/store/slices/walletSlice';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import { useEffect, useMemo, useState } from 'react';
-import { Alert, Clipboard, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, ScrollView, Text, TouchableOpacity, View } from 'react-native';
 
 type RecoveryTab = 'phrase' | 'privateKey';
 
+// How long a successful re-authentication keeps secrets revealable
+const REVEAL_TIMEOUT_MS = 60 * 1000;
+
 export default function BackupWalletScreen() {
   const router = useRouter();
   const dispatch = useAppDispatch();
@@ -14,6 +19,9 @@ export default function BackupWalletScreen() {
   const [phraseVisible, setPhraseVisible] = useState(false);
   const [privateKeyVisible, setPrivateKeyVisible] = useState(false);
   const [activeTab, setActiveTab] = useState<RecoveryTab>('phrase');
+  const [authorizedUntil, setAuthorizedUntil] = useState<number | null>(null);
+  const [reauthVisible, setReauthVisible] = useState(false);
+  const pendingActionRef = useRef<(() => void) | null>(null);
 
   useEffect(() => {
     dispatch(loadWalletFromStorage());
@@ -63,17 +71,72 @@ export default function BackupWalletScreen() {
     }
   }, [availableTabs, activeTab]);
 
+  // Hide everything again once the re-authentication window runs out
+  useEffect(() => {
+    if (!authorizedUntil) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      setAuthorizedUntil(null);
+      setPhraseVisible(false);
+      setPrivateKeyVisible(false);
+    }, Math.max(0, authorizedUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [authorizedUntil]);
+
+  const requireAuthorization = (action: () => void) => {
+    if (authorizedUntil && authorizedUntil > Date.now()) {
+      action();
+      return;
+    }
+    pendingActionRef.current = action;
+    setReauthVisible(true);
+  };
+
+  const handleAuthorized = () => {
+    setReauthVisible(false);
+    setAuthorizedUntil(Date.now() + REVEAL_TIMEOUT_MS);
+    pendingActionRef.current?.();
+    pendingActionRef.current = null;
+  };
+
+  const handleReauthCancel = () => {
+    setReauthVisible(false);
+    pendingActionRef.current = null;
+  };
+
+  const togglePhrase = () => {
+    if (phraseVisible) {
+      setPhraseVisible(false);
+      return;
+    }
+    requireAuthorization(() => setPhraseVisible(true));
+  };
+
+  const togglePrivateKey = () => {
+    if (privateKeyVisible) {
+      setPrivateKeyVisible(false);
+      return;
+    }
+    requireAuthorization(() => setPrivateKeyVisible(true));
+  };
+
   const handleCopy = (value: string | null, label: string) => {
     if (!value) {
       Alert.alert('Unavailable', `No ${label.toLowerCase()} found for this wallet.`);
       return;
     }
-    try {
-      Clipboard.setString(value);
-      Alert.alert('Copied', `${label} copied to clipboard`);
-    } catch {
-      Alert.alert('Error', `Failed to copy ${label.toLowerCase()}`);
-    }
+    requireAuthorization(() => {
+      try {
+        copySensitive(value);
+        Alert.alert(
+          'Copied',
+          `${label} copied to clipboard. It will be cleared in ${SENSITIVE_CLIPBOARD_TIMEOUT_MS / 1000} seconds.`
+        );
+      } catch {
+        Alert.alert('Error', `Failed to copy ${label.toLowerCase()}`);
+      }
+    });
   };
 
   return (
@@ -169,12 +232,12 @@ export default function BackupWalletScreen() {
                   {phraseData.label}
                 </Text>
                 <Text className="text-xs text-gray-500 mb-4">
-                  Tap the card to show or hide your phrase. Ensure no one else can see your screen.
+                  Tap the card to show or hide your phrase. You will be asked to confirm it is you, and it hides again after a minute.
                 </Text>
 
                 <TouchableOpacity
                   activeOpacity={0.85}
-                  onPress={() => setPhraseVisible(!phraseVisible)}
+                  onPress={togglePhrase}
                   className="relative mb-4"
                 >
                   <View className="flex-row flex-wrap">
@@ -229,7 +292,7 @@ export default function BackupWalletScreen() {
                       {privateKeyVisible ? privateKeyValue : '••••••••••••••••••••••••••'}
                     </Text>
                     <TouchableOpacity
-                      onPress={() => setPrivateKeyVisible((prev) => !prev)}
+                      onPress={togglePrivateKey}
                       className="absolute inset-y-0 right-3 flex-row items-center justify-center"
                       accessibilityRole="button"
                       accessibilityLabel={privateKeyVisible ? 'Hide private key' : 'Show private key'}
@@ -253,6 +316,14 @@ export default function BackupWalletScreen() {
           </View>
         )}
       </ScrollView>
+
+      <ReauthPrompt
+        visible={reauthVisible}
+        title="Confirm it's you"
+        message="Enter your password to reveal or copy your recovery details."
+        onCancel={handleReauthCancel}
+        onConfirmed={handleAuthorized}
+      />
     </View>
   );
 }
@@ -0,0 +1,150 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useRouter } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { Alert, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { evaluatePasswordStrength } from '@/services/password';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { changePassword, WALLET_WIPED_MESSAGE } from '@/store/slices/securitySlice';
+
+export default function ChangePasswordScreen() {
+  const dispatch = useAppDispatch();
+  const router = useRouter();
+  const { locked } = useAppSelector((state) => state.security);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const passwordStrength = useMemo(() => evaluatePasswordStrength(newPassword), [newPassword]);
+  const strengthLabel = passwordStrength === 'high' ? 'High (Perfect)' : passwordStrength === 'middle' ? 'Middle' : 'Low';
+  const strengthColor =
+    passwordStrength === 'high' ? 'text-green-600' : passwordStrength === 'middle' ? 'text-yellow-600' : 'text-red-600';
+
+  const handleChangePassword = async () => {
+    if (!currentPassword) {
+      setError('Enter your current password');
+      return;
+    }
+
+    if (newPassword.length < 6) {
+      setError('New password must be at least 6 characters.');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match.');
+      return;
+    }
+
+    if (newPassword === currentPassword) {
+      setError('Choose a password different from the current one.');
+      return;
+    }
+
+    setError('');
+    setSubmitting(true);
+    const result = await dispatch(changePassword({ currentPassword, newPassword }));
+    setSubmitting(false);
+
+    if (changePassword.fulfilled.match(result)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert('Password Changed', 'Use your new password the next time the wallet locks.', [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      if (result.payload === WALLET_WIPED_MESSAGE) {
+        Alert.alert('Wallet Erased', WALLET_WIPED_MESSAGE);
+        router.replace('/');
+        return;
+      }
+      setError((result.payload as string) || 'Failed to change password. Please try again.');
+    }
+  };
+
+  const renderPasswordInput = (
+    label: string,
+    value: string,
+    onChange: (text: string) => void,
+    placeholder: string
+  ) => (
+    <View className="mb-4">
+      <Text className="text-sm font-semibold text-gray-700 mb-2">
+        {label}
+      </Text>
+      <TextInput
+        className="bg-white border border-gray-300 rounded-2xl py-4 px-4 text-base text-gray-900"
+        secureTextEntry={!showPasswords}
+        value={value}
+        editable={!submitting && !locked}
+        onChangeText={(text) => {
+          onChange(text);
+          if (error) {
+            setError('');
+          }
+        }}
+        placeholder={placeholder}
+        placeholderTextColor="#9CA3AF"
+        autoCapitalize="none"
+      />
+    </View>
+  );
+
+  return (
+    <View className="flex-1 bg-blue-50">
+      <ScrollView contentContainerStyle={{ padding: 24 }}>
+        <Text className="text-base text-gray-600 mb-6">
+          Your recovery phrase and keys stay encrypted throughout. Only the key that protects them is re-wrapped with the new password.
+        </Text>
+
+        {renderPasswordInput('Current Password', currentPassword, setCurrentPassword, 'Enter current password')}
+        {renderPasswordInput('New Password', newPassword, setNewPassword, 'Enter a strong password')}
+
+        <View className="flex-row items-center justify-between -mt-2 mb-4">
+          <Text className="text-xs text-gray-500">
+            Password strength
+          </Text>
+          <Text className={`text-xs font-semibold ${strengthColor}`}>
+            {strengthLabel}
+          </Text>
+        </View>
+
+        {renderPasswordInput('Confirm New Password', confirmPassword, setConfirmPassword, 'Re-enter new password')}
+
+        <TouchableOpacity
+          className="flex-row items-center mb-6"
+          onPress={() => setShowPasswords((prev) => !prev)}
+        >
+          <Ionicons name={showPasswords ? 'eye-off' : 'eye'} size={18} color="#4b5563" />
+          <Text className="text-sm text-gray-600 ml-2">
+            {showPasswords ? 'Hide passwords' : 'Show passwords'}
+          </Text>
+        </TouchableOpacity>
+
+        {locked ? (
+          <Text className="text-sm text-red-600 mb-4">
+            Unlock your wallet before changing the password.
+          </Text>
+        ) : error ? (
+          <Text className="text-sm text-red-600 mb-4">
+            {error}
+          </Text>
+        ) : null}
+
+        <TouchableOpacity
+          className="bg-blue-500 py-4 px-8 rounded-2xl w-full items-center shadow-lg"
+          onPress={handleChangePassword}
+          disabled={submitting || locked}
+          style={{ opacity: submitting || locked ? 0.6 : 1 }}
+        >
+          <Text className="text-white text-base font-semibold">
+            {submitting ? 'Updating...' : 'Change Password'}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
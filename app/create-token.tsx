@@ -1,6 +1,12 @@
-import { walletApi } from '@/services/api';
 import { useToast } from '@/components/toast';
-import { useAppSelector } from '@/store/hooks';
+import { addressError } from '@/services/address';
+import { parseAmount } from '@/services/amount';
+import { describeError, failedResponseError } from '@/services/errors';
+import { accountFromSeed, resolveSigningKey } from '@/services/keyring';
+import { signAndCreateToken } from '@/services/signer';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { selectNetworkName } from '@/store/slices/networkSlice';
+import { rememberTokenMetadata } from '@/store/slices/tokensSlice';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
@@ -8,52 +14,50 @@ import { useRouter } from 'expo-router';
 import { useMemo, useState } from 'react';
 import { ActivityIndicator, Alert, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
-const NETWORK_OPTIONS: Array<'test' | 'main' | 'dev'> = ['test', 'main', 'dev'];
 const TOKEN_NAME_REGEX = /^[A-Z_]{1,50}$/;
 const TOKEN_SYMBOL_REGEX = /^[A-Z0-9_]{1,16}$/;
 
-const FRIENDLY_ERROR_TEXT: Record<string, string> = {
-  TOKEN_NAME_INVALID: 'Token names must use uppercase letters or underscores (max 50 characters).',
-  TOKEN_SYMBOL_INVALID: 'Token symbols must use uppercase letters, digits, or underscores (max 16 characters).',
-  INSUFFICIENT_FUNDS: 'Insufficient base token balance to pay the creation fee. Receive more funds and try again.',
-  NETWORK_TIMEOUT: 'KeetaNet representatives did not respond in time. Please retry in a moment.',
-  TOKEN_CREATE_ERROR: 'We could not create this token. Double-check your inputs and try again.',
-};
-
-const describeError = (code?: string, fallback?: string) => {
-  if (code && FRIENDLY_ERROR_TEXT[code]) {
-    return FRIENDLY_ERROR_TEXT[code];
-  }
-  if (fallback) {
-    return fallback;
-  }
-  return 'Something went wrong while creating the token. Please try again.';
-};
-
 export default function CreateTokenScreen() {
   const router = useRouter();
   const { showToast, currentToast } = useToast();
-  const { walletData } = useAppSelector((state) => state.wallet);
-  const storedSeed = walletData?.seed || walletData?.privateKey || '';
+  const dispatch = useAppDispatch();
+  const { walletData, accounts, activeAccountId } = useAppSelector((state) => state.wallet);
+  const network = useAppSelector(selectNetworkName);
+  const activeAccount = accounts.find((account) => account.id === activeAccountId);
+  const storedSeed = useMemo(
+    () => (walletData ? resolveSigningKey(walletData, activeAccount?.derivationIndex) : null),
+    [walletData, activeAccount?.derivationIndex]
+  );
   const [seedOverride, setSeedOverride] = useState('');
   const [name, setName] = useState('');
   const [symbol, setSymbol] = useState('');
   const [supply, setSupply] = useState('1000');
   const [description, setDescription] = useState('');
   const [metadataUrl, setMetadataUrl] = useState('');
-  const [network, setNetwork] = useState<'test' | 'main' | 'dev'>('test');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<null | {
     tokenAddress: string;
     initialSupply: string;
+    blockHash: string | null;
   }>(null);
 
   const [error, setError] = useState('');
-  const [errorCode, setErrorCode] = useState<string | undefined>(undefined);
 
-  const resolvedSeed = useMemo(() => {
-    return (storedSeed || seedOverride).trim();
-  }, [seedOverride, storedSeed]);
+  // Address and key that sign the token creation blocks on this device
+  const signer = useMemo(() => {
+    if (storedSeed && walletData) {
+      return { address: walletData.address, signingKey: storedSeed };
+    }
+    if (!seedOverride.trim()) {
+      return null;
+    }
+    try {
+      const derived = accountFromSeed(seedOverride.trim(), 0);
+      return { address: derived.address, signingKey: derived.privateKey };
+    } catch {
+      return null;
+    }
+  }, [seedOverride, storedSeed, walletData]);
 
   const handleCopy = async (value: string) => {
     try {
@@ -67,18 +71,19 @@ export default function CreateTokenScreen() {
 
   const isNameValid = TOKEN_NAME_REGEX.test(name);
   const isSymbolValid = TOKEN_SYMBOL_REGEX.test(symbol);
-  const isSupplyValid = /^[0-9]+$/.test(supply.trim());
-  const isSeedPresent = Boolean(resolvedSeed);
+  // New tokens have no decimal places, so the supply is a whole number of base units
+  const supplyUnits = parseAmount(supply, 0);
+  const isSupplyValid = supplyUnits !== null && supplyUnits > BigInt(0);
+  const isSeedPresent = Boolean(signer);
 
-  const showErrorAlert = (code?: string, fallback?: string) => {
-    Alert.alert('Warning', describeError(code, fallback), [{ text: 'OK' }], { cancelable: true });
+  const showErrorAlert = (message: string) => {
+    Alert.alert('Warning', message, [{ text: 'OK' }], { cancelable: true });
   };
 
   const handleSubmit = async () => {
     setError('');
-    setErrorCode(undefined);
 
-    if (!isSeedPresent) {
+    if (!signer) {
       setError('Seed is required. Paste your 64-character seed to continue.');
       return;
     }
@@ -93,7 +98,7 @@ export default function CreateTokenScreen() {
       return;
     }
 
-    if (!isSupplyValid) {
+    if (!isSupplyValid || supplyUnits === null) {
       setError('Initial supply must be a positive whole number.');
       return;
     }
@@ -101,35 +106,47 @@ export default function CreateTokenScreen() {
     try {
       setLoading(true);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-      const response = await walletApi.createToken({
-        seed: resolvedSeed,
+      const response = await signAndCreateToken(signer.signingKey, {
+        account: signer.address,
         name: name.trim(),
         symbol: symbol.trim(),
-        initialSupply: supply.trim(),
+        initialSupply: supplyUnits.toString(),
         description: description.trim(),
         metadata: metadataUrl.trim() ? { metadataUrl: metadataUrl.trim() } : undefined,
-        network,
       });
 
-      if (response.success && response.data) {
-        setResult({
-          tokenAddress: response.data.tokenAddress,
-          initialSupply: response.data.initialSupply,
-        });
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-        showToast('Token created successfully!', 'success', 4000);
-      } else {
-        setError(response.message || 'Failed to create token.');
-        setErrorCode((response as any).code);
-        showErrorAlert((response as any).code, response.message);
+      if (!response.success || !response.data) {
+        throw failedResponseError(response, 'Failed to create token.');
+      }
+      // Holders will be told to use this address, so never show one that fails verification
+      const tokenAddressError = addressError(response.data.tokenAddress, 'token');
+      if (tokenAddressError) {
+        throw new Error(
+          `The token was submitted, but the backend returned an address that failed verification (${tokenAddressError}). Check your activity before trying again.`
+        );
       }
-    } catch (err: any) {
-      const message = err.response?.data?.message || err.message || 'Failed to create token';
-      const code = err.response?.data?.code;
+
+      setResult({
+        tokenAddress: response.data.tokenAddress,
+        initialSupply: response.data.initialSupply,
+        blockHash: response.data.blocks?.[0]?.hash || null,
+      });
+      dispatch(
+        rememberTokenMetadata({
+          address: response.data.tokenAddress,
+          name: name.trim(),
+          symbol: symbol.trim(),
+          decimals: 0,
+          icon: null,
+        })
+      );
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showToast('Token created successfully!', 'success', 4000);
+    } catch (err) {
+      const message = describeError(err, 'Something went wrong while creating the token. Please try again.');
       setError(message);
-      setErrorCode(code);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      showErrorAlert(code, message);
+      showErrorAlert(message);
     } finally {
       setLoading(false);
     }
@@ -225,30 +242,16 @@ export default function CreateTokenScreen() {
           />
 
           <Text className="text-xs font-semibold text-gray-500 mb-2">Target Network</Text>
-          <View className="flex-row gap-2 mb-4">
-            {NETWORK_OPTIONS.map((option) => {
-              const selected = option === network;
-              return (
-                <TouchableOpacity
-                  key={option}
-                  className={`px-4 py-2 rounded-xl border ${
-                    selected ? 'bg-blue-500 border-blue-500' : 'bg-gray-100 border-gray-200'
-                  }`}
-                  onPress={() => setNetwork(option)}
-                >
-                  <Text className={`text-xs font-semibold ${selected ? 'text-white' : 'text-gray-700'}`}>
-                    {option.toUpperCase()}
-                  </Text>
-                </TouchableOpacity>
-              );
-            })}
+          <View className="bg-gray-100 border border-gray-200 rounded-2xl px-4 py-3 mb-1">
+            <Text className="text-sm font-semibold text-gray-700">{network.toUpperCase()}</Text>
           </View>
+          <Text className="text-xs text-gray-400 mb-4">Switch networks from the wallet header.</Text>
         </View>
 
         <View className="bg-white rounded-3xl p-5 mb-6 shadow-sm border border-gray-100">
           <Text className="text-lg font-semibold text-black mb-4">Signing seed</Text>
           <Text className="text-sm text-gray-600 mb-3">
-            The KeetaNet SDK signs the token transaction with your seed. It never leaves your device unless you paste it here.
+            Your seed signs the token transaction on this device. Only the signed blocks are sent to the backend.
           </Text>
           <TextInput
             className="border border-gray-200 rounded-2xl px-4 py-3 bg-gray-50 text-gray-900 font-mono"
@@ -263,6 +266,8 @@ export default function CreateTokenScreen() {
           )}
         </View>
 
+        {error ? <Text className="text-xs text-red-600 mb-3">{error}</Text> : null}
+
         <TouchableOpacity
           className="bg-blue-500 rounded-2xl py-4 items-center"
           onPress={handleSubmit}
@@ -293,6 +298,15 @@ export default function CreateTokenScreen() {
               <Ionicons name="copy-outline" size={18} color="#fff" />
               <Text className="text-white font-semibold ml-2">Copy Address</Text>
             </TouchableOpacity>
+            {result.blockHash && (
+              <TouchableOpacity
+                className="flex-row items-center justify-center bg-white border border-green-500 rounded-2xl py-3 mb-3"
+                onPress={() => router.push({ pathname: '/transaction/[hash]', params: { hash: result.blockHash! } })}
+              >
+                <Ionicons name="document-text-outline" size={18} color="#15803d" />
+                <Text className="text-green-700 font-semibold ml-2">View Transaction</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
               className="border border-green-500 rounded-2xl py-3 items-center"
               onPress={() => router.replace('/wallet')}
@@ -1,5 +1,5 @@
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { createWallet } from '@/store/slices/walletSlice';
+import { createWallet, WalletData } from '@/store/slices/walletSlice';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import { useRouter } from 'expo-router';
@@ -8,7 +8,8 @@ import { ActivityIndicator, Alert, ScrollView, Text, TouchableOpacity, View } fr
 
 export default function CreateWalletScreen() {
   const dispatch = useAppDispatch();
-  const { loading, walletData } = useAppSelector((state) => state.wallet);
+  const { loading } = useAppSelector((state) => state.wallet);
+  const [walletData, setWalletData] = useState<WalletData | null>(null);
   const [seedVisible, setSeedVisible] = useState(false);
   const [showWarning, setShowWarning] = useState(true);
   const [showConfirmation, setShowConfirmation] = useState(false);
@@ -24,7 +25,9 @@ export default function CreateWalletScreen() {
 
   const handleCreateWallet = async () => {
     const result = await dispatch(createWallet());
-    if (createWallet.rejected.match(result)) {
+    if (createWallet.fulfilled.match(result)) {
+      setWalletData(result.payload.walletData);
+    } else if (createWallet.rejected.match(result)) {
       Alert.alert(
         'Error',
         (result.payload as string) || 'Failed to create wallet. Please try again.',
@@ -1,25 +1,47 @@
-import { walletApi } from '@/services/api';
-import { saveWallet } from '@/services/walletStorage';
+import { formatAmount } from '@/services/amount';
+import { addressError, looksLikeAddress } from '@/services/address';
+import { describeError } from '@/services/errors';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { importWalletFromMnemonic, loadWalletFromStorage } from '@/store/slices/walletSlice';
+import {
+  DiscoveredAccount,
+  discoverMnemonicAccounts,
+  importWalletFromMnemonic,
+  importWalletFromPrivateKey,
+  importWatchOnlyAccount,
+} from '@/store/slices/walletSlice';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useCallback, useEffect, useState } from 'react';
 import { ActivityIndicator, Alert, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
-type ImportMethod = 'mnemonic' | 'privateKey';
+type ImportMethod = 'mnemonic' | 'privateKey' | 'watchOnly';
 const TOTAL_MNEMONIC_WORDS = 24;
 
 export default function ImportWalletScreen() {
   const dispatch = useAppDispatch();
-  const { loading, walletData } = useAppSelector((state) => state.wallet);
-  const [importMethod, setImportMethod] = useState<ImportMethod>('mnemonic');
+  const { loading } = useAppSelector((state) => state.wallet);
+  // Set when opened from an import-watch-only link
+  const params = useLocalSearchParams<{ watchAddress?: string; watchName?: string }>();
+  const [importMethod, setImportMethod] = useState<ImportMethod>(params.watchAddress ? 'watchOnly' : 'mnemonic');
   const [mnemonicWords, setMnemonicWords] = useState<string[]>(Array(TOTAL_MNEMONIC_WORDS).fill(''));
   const [privateKey, setPrivateKey] = useState('');
   const [privateKeyVisible, setPrivateKeyVisible] = useState(false);
+  const [watchAddress, setWatchAddress] = useState(params.watchAddress || '');
+  const [watchName, setWatchName] = useState(params.watchName || '');
+  const [discovering, setDiscovering] = useState(false);
+  const [discoverError, setDiscoverError] = useState('');
+  const [discoveredAccounts, setDiscoveredAccounts] = useState<DiscoveredAccount[] | null>(null);
+  const [selectedIndices, setSelectedIndices] = useState<number[]>([0]);
   const router = useRouter();
 
+  // A different phrase derives different accounts, so drop stale scan results
+  useEffect(() => {
+    setDiscoveredAccounts(null);
+    setDiscoverError('');
+    setSelectedIndices([0]);
+  }, [mnemonicWords]);
+
   const handleWordChange = (index: number, value: string) => {
     setMnemonicWords((prev) => {
       const updated = [...prev];
@@ -36,6 +58,11 @@ export default function ImportWalletScreen() {
         return;
       }
 
+      if (looksLikeAddress(clipboardText)) {
+        Alert.alert('Error', 'The clipboard holds a KeetaNet address, not a recovery phrase.');
+        return;
+      }
+
       // Split by whitespace (spaces, tabs, newlines)
       const words = clipboardText.trim().split(/\s+/).filter(word => word.length > 0);
       
@@ -57,8 +84,11 @@ export default function ImportWalletScreen() {
   const handleClear = useCallback(() => {
     if (importMethod === 'mnemonic') {
       setMnemonicWords(Array(TOTAL_MNEMONIC_WORDS).fill(''));
-    } else {
+    } else if (importMethod === 'privateKey') {
       setPrivateKey('');
+    } else {
+      setWatchAddress('');
+      setWatchName('');
     }
   }, [importMethod]);
 
@@ -88,66 +118,111 @@ export default function ImportWalletScreen() {
     };
   }, [importMethod, handlePaste]); // Re-run when importMethod or handlePaste changes
 
+  // Addresses are public, so one pasted here can never unlock the account
+  const privateKeyError = looksLikeAddress(privateKey)
+    ? 'This is a KeetaNet address, not a private key. Paste the 64-character key that controls it.'
+    : '';
+
+  const watchAddressError = watchAddress.trim() ? addressError(watchAddress, 'account') : null;
+
+  const readMnemonic = (): string | null => {
+    const selectedWords = mnemonicWords.map((word) => word.trim());
+    const hasEmpty = selectedWords.some((word) => word.length === 0);
+    if (hasEmpty) {
+      Alert.alert('Error', 'Please fill in every mnemonic word.');
+      return null;
+    }
+    const mnemonic = selectedWords.join(' ');
+    if (!mnemonic.trim()) {
+      Alert.alert('Error', 'Please enter your mnemonic phrase');
+      return null;
+    }
+    return mnemonic.trim();
+  };
+
+  const handleDiscover = async () => {
+    const mnemonic = readMnemonic();
+    if (!mnemonic) {
+      return;
+    }
+
+    setDiscovering(true);
+    setDiscoverError('');
+    const result = await dispatch(discoverMnemonicAccounts(mnemonic));
+    setDiscovering(false);
+
+    if (discoverMnemonicAccounts.fulfilled.match(result)) {
+      const funded = result.payload.filter((account) => account.hasFunds).map((account) => account.index);
+      setDiscoveredAccounts(result.payload);
+      setSelectedIndices(funded.length > 0 ? funded : [0]);
+    } else if (discoverMnemonicAccounts.rejected.match(result)) {
+      setDiscoveredAccounts(null);
+      setDiscoverError((result.payload as string) || 'Failed to scan for accounts.');
+    }
+  };
+
+  const toggleIndex = (index: number) => {
+    setSelectedIndices((prev) =>
+      prev.includes(index) ? prev.filter((item) => item !== index) : [...prev, index]
+    );
+  };
+
   const handleImport = async () => {
     try {
       let result;
 
       if (importMethod === 'mnemonic') {
-        const selectedWords = mnemonicWords.map((word) => word.trim());
-        const hasEmpty = selectedWords.some((word) => word.length === 0);
-        if (hasEmpty) {
-          Alert.alert('Error', 'Please fill in every mnemonic word.');
+        const mnemonic = readMnemonic();
+        if (!mnemonic) {
           return;
         }
-        const mnemonic = selectedWords.join(' ');
-        if (!mnemonic.trim()) {
-          Alert.alert('Error', 'Please enter your mnemonic phrase');
+        if (selectedIndices.length === 0) {
+          Alert.alert('Error', 'Select at least one account to import.');
           return;
         }
-        result = await dispatch(importWalletFromMnemonic(mnemonic.trim()));
+        result = await dispatch(importWalletFromMnemonic({ mnemonic, indices: selectedIndices }));
+      } else if (importMethod === 'watchOnly') {
+        if (!watchAddress.trim()) {
+          Alert.alert('Error', 'Please enter the address to watch');
+          return;
+        }
+        if (watchAddressError) {
+          return;
+        }
+        result = await dispatch(importWatchOnlyAccount({ address: watchAddress, name: watchName.trim() || null }));
       } else {
-        // Private key import - still using direct API call for now
         if (!privateKey.trim()) {
           Alert.alert('Error', 'Please enter your private key');
           return;
         }
-        const response = await walletApi.importWalletFromPrivateKey(privateKey.trim());
-        if (response.success && response.data) {
-          await saveWallet({
-            address: response.data.address,
-            publicKey: response.data.publicKey,
-            privateKey: privateKey.trim(),
-          });
-          Alert.alert(
-            'Success',
-            'Wallet imported successfully! Create a password next to secure it.',
-            [
-              {
-                text: 'Continue',
-                onPress: () => router.replace('/set-password'),
-              },
-            ]
-          );
+        if (privateKeyError) {
+          return;
         }
-        await dispatch(loadWalletFromStorage());
-        router.replace('/set-password');
-        return;
+        result = await dispatch(importWalletFromPrivateKey(privateKey.trim()));
       }
 
-      if (importWalletFromMnemonic.fulfilled.match(result)) {
+      if (
+        importWalletFromMnemonic.fulfilled.match(result) ||
+        importWalletFromPrivateKey.fulfilled.match(result) ||
+        importWatchOnlyAccount.fulfilled.match(result)
+      ) {
         router.replace('/set-password');
-      } else if (importWalletFromMnemonic.rejected.match(result)) {
+      } else if (
+        importWalletFromMnemonic.rejected.match(result) ||
+        importWalletFromPrivateKey.rejected.match(result) ||
+        importWatchOnlyAccount.rejected.match(result)
+      ) {
         Alert.alert(
           'Error',
           (result.payload as string) || 'Failed to import wallet. Please check your credentials and try again.',
           [{ text: 'OK' }]
         );
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error importing wallet:', error);
       Alert.alert(
         'Error',
-        error.response?.data?.message || 'Failed to import wallet. Please check your credentials and try again.',
+        describeError(error, 'Failed to import wallet. Please check your credentials and try again.'),
         [{ text: 'OK' }]
       );
     }
@@ -192,6 +267,20 @@ export default function ImportWalletScreen() {
               Private Key
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            className={`flex-1 py-3 px-4 rounded-xl items-center ${
+              importMethod === 'watchOnly' ? 'bg-blue-500' : 'bg-white border border-blue-500'
+            }`}
+            onPress={() => setImportMethod('watchOnly')}
+          >
+            <Text
+              className={`text-base font-semibold ${
+                importMethod === 'watchOnly' ? 'text-white' : 'text-blue-500'
+              }`}
+            >
+              Watch Only
+            </Text>
+          </TouchableOpacity>
         </View>
 
         {importMethod === 'mnemonic' ? (
@@ -244,6 +333,116 @@ export default function ImportWalletScreen() {
                 </View>
               ))}
             </View>
+
+            <TouchableOpacity
+              className="flex-row items-center justify-center bg-white border border-blue-500 rounded-xl py-3 mt-3"
+              onPress={handleDiscover}
+              disabled={discovering || loading}
+              style={{ opacity: discovering || loading ? 0.6 : 1 }}
+            >
+              {discovering ? (
+                <ActivityIndicator color="#2196F3" size="small" />
+              ) : (
+                <Ionicons name="search-outline" size={18} color="#2196F3" />
+              )}
+              <Text className="text-blue-500 font-semibold ml-2">
+                {discovering ? 'Scanning accounts...' : 'Discover accounts with balance'}
+              </Text>
+            </TouchableOpacity>
+
+            {discoverError ? (
+              <View className="bg-red-50 border border-red-200 rounded-xl p-3 mt-3">
+                <Text className="text-xs text-red-700">{discoverError}</Text>
+                <Text className="text-xs text-red-600 mt-1">
+                  No accounts were skipped. Check your connection and scan again.
+                </Text>
+              </View>
+            ) : null}
+
+            {discoveredAccounts && (
+              <View className="bg-white rounded-xl border border-gray-200 p-3 mt-3">
+                <Text className="text-sm font-semibold text-black mb-2">
+                  Select accounts to import
+                </Text>
+                {discoveredAccounts
+                  .filter((account) => account.hasFunds || account.index === 0)
+                  .map((account) => {
+                    const selected = selectedIndices.includes(account.index);
+                    return (
+                      <TouchableOpacity
+                        key={account.index}
+                        className="flex-row items-center py-2"
+                        onPress={() => toggleIndex(account.index)}
+                      >
+                        <Ionicons
+                          name={selected ? 'checkbox' : 'square-outline'}
+                          size={20}
+                          color={selected ? '#2196F3' : '#9ca3af'}
+                        />
+                        <View className="flex-1 ml-3">
+                          <Text className="text-sm text-black font-semibold">Account #{account.index}</Text>
+                          <Text className="text-xs text-gray-500 font-mono" numberOfLines={1}>
+                            {account.address}
+                          </Text>
+                        </View>
+                        <Text className="text-xs text-gray-600 ml-2">
+                          {account.hasFunds
+                            ? `${formatAmount(account.balance)} KTA${account.tokenCount ? ` · ${account.tokenCount} tokens` : ''}`
+                            : 'Empty'}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                {!discoveredAccounts.some((account) => account.hasFunds) && (
+                  <Text className="text-xs text-gray-500 mt-1">
+                    No funded accounts found. The first account will be imported.
+                  </Text>
+                )}
+              </View>
+            )}
+          </View>
+        ) : importMethod === 'watchOnly' ? (
+          <View className="mb-5">
+            <View className="flex-row justify-between items-center mb-2">
+              <Text className="text-base font-semibold text-black">
+                Address
+              </Text>
+              <TouchableOpacity
+                className="bg-gray-500 py-2 px-4 rounded-lg"
+                onPress={handleClear}
+              >
+                <Text className="text-white text-sm font-semibold">Clear</Text>
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              className={`bg-white border rounded-xl py-3 px-4 text-base min-h-[50px] text-gray-900 font-mono ${
+                watchAddressError ? 'border-red-300' : 'border-gray-300'
+              }`}
+              value={watchAddress}
+              onChangeText={setWatchAddress}
+              placeholder="keeta_..."
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {watchAddressError ? (
+              <Text className="text-xs text-red-600 mt-2">{watchAddressError}</Text>
+            ) : (
+              <Text className="text-xs text-gray-500 mt-2">
+                Follow the balance and activity of any account. No keys are stored, so it cannot send.
+              </Text>
+            )}
+            <Text className="text-base font-semibold text-black mt-4 mb-2">
+              Name
+            </Text>
+            <TextInput
+              className="bg-white border border-gray-300 rounded-xl py-3 px-4 text-base text-gray-900"
+              value={watchName}
+              onChangeText={setWatchName}
+              placeholder="Optional"
+              placeholderTextColor="#9CA3AF"
+              maxLength={32}
+            />
           </View>
         ) : (
           <View className="mb-5">
@@ -260,7 +459,9 @@ export default function ImportWalletScreen() {
             </View>
             <View className="relative">
               <TextInput
-                className="bg-white border border-gray-300 rounded-xl py-3 pl-4 pr-12 text-base min-h-[50px] text-gray-900 font-mono"
+                className={`bg-white border rounded-xl py-3 pl-4 pr-12 text-base min-h-[50px] text-gray-900 font-mono ${
+                  privateKeyError ? 'border-red-300' : 'border-gray-300'
+                }`}
                 value={privateKey}
                 onChangeText={setPrivateKey}
                 placeholder="Enter your private key"
@@ -278,22 +479,13 @@ export default function ImportWalletScreen() {
                 <Ionicons name={privateKeyVisible ? 'eye-off' : 'eye'} size={20} color="#4b5563" />
               </TouchableOpacity>
             </View>
-            <Text className="text-xs text-gray-500 mt-2">
-              Enter your private key (treated as seed)
-            </Text>
-          </View>
-        )}
-
-        {walletData?.address && (
-          <View className="mt-5 mb-3">
-            <Text className="text-lg font-semibold text-black mb-2">
-              Imported Wallet Address
-            </Text>
-            <View className="bg-white p-3 rounded-xl border border-gray-200">
-              <Text className="text-xs text-gray-700 font-mono">
-                {walletData.address}
+            {privateKeyError ? (
+              <Text className="text-xs text-red-600 mt-2">{privateKeyError}</Text>
+            ) : (
+              <Text className="text-xs text-gray-500 mt-2">
+                Enter your 64-character hex private key. It never leaves this device.
               </Text>
-            </View>
+            )}
           </View>
         )}
 
@@ -312,7 +504,9 @@ export default function ImportWalletScreen() {
           {loading ? (
             <ActivityIndicator color="#fff" />
           ) : (
-            <Text className="text-white text-base font-semibold">Import Wallet</Text>
+            <Text className="text-white text-base font-semibold">
+              {importMethod === 'watchOnly' ? 'Watch Account' : 'Import Wallet'}
+            </Text>
           )}
         </TouchableOpacity>
       </ScrollView>
@@ -0,0 +1,98 @@
+import { Ionicons } from '@expo/vector-icons';
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
+import * as Haptics from 'expo-haptics';
+import { useRouter } from 'expo-router';
+import { useRef, useState } from 'react';
+import { ActivityIndicator, Linking, Text, TouchableOpacity, View } from 'react-native';
+
+import { parseQrPayload } from '@/services/qrPayload';
+import { useAppDispatch } from '@/store/hooks';
+import { paymentDraftReceived } from '@/store/slices/paymentSlice';
+
+// Keep a rejected code on screen this long before scanning again
+const RESCAN_DELAY_MS = 2000;
+
+export default function ScanScreen() {
+  const dispatch = useAppDispatch();
+  const router = useRouter();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [error, setError] = useState('');
+  // Camera callbacks keep firing while the same code is in view
+  const handledRef = useRef(false);
+
+  const handleScanned = ({ data }: BarcodeScanningResult) => {
+    if (handledRef.current) {
+      return;
+    }
+    handledRef.current = true;
+
+    try {
+      const payment = parseQrPayload(data);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      dispatch(paymentDraftReceived(payment));
+      router.back();
+    } catch (err: any) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(err.message || 'This code is not a KeetaNet address or payment request');
+      setTimeout(() => {
+        handledRef.current = false;
+      }, RESCAN_DELAY_MS);
+    }
+  };
+
+  if (!permission) {
+    return (
+      <View className="flex-1 bg-black items-center justify-center">
+        <ActivityIndicator color="#fff" />
+      </View>
+    );
+  }
+
+  if (!permission.granted) {
+    return (
+      <View className="flex-1 bg-blue-50 items-center justify-center p-6">
+        <Ionicons name="camera-outline" size={48} color="#2563eb" />
+        <Text className="text-lg font-semibold text-black mt-4 text-center">Camera access needed</Text>
+        <Text className="text-sm text-gray-600 mt-2 text-center">
+          The camera is only used to read payment QR codes. Nothing is recorded.
+        </Text>
+        <TouchableOpacity
+          className="bg-blue-500 py-4 px-8 rounded-2xl w-full items-center shadow-lg mt-6"
+          onPress={permission.canAskAgain ? requestPermission : () => Linking.openSettings()}
+        >
+          <Text className="text-white text-base font-semibold">
+            {permission.canAskAgain ? 'Allow Camera' : 'Open Settings'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-black">
+      <CameraView
+        style={{ flex: 1 }}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={handleScanned}
+      />
+      <View className="absolute left-0 right-0 bottom-0 p-6">
+        {error ? (
+          <View className="bg-red-50 border border-red-200 rounded-xl p-4 mb-3 flex-row items-center">
+            <Ionicons name="alert-circle-outline" size={20} color="#dc2626" />
+            <Text className="text-red-700 text-sm ml-2 flex-1">{error}</Text>
+          </View>
+        ) : (
+          <View className="bg-black/60 rounded-xl p-4 mb-3">
+            <Text className="text-white text-sm text-center">
+              Point the camera at a KeetaNet address or payment request
+            </Text>
+          </View>
+        )}
+        <TouchableOpacity className="bg-white rounded-2xl py-4 items-center" onPress={() => router.back()}>
+          <Text className="text-gray-900 font-semibold text-base">Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
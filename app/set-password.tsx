@@ -3,31 +3,10 @@ import { useRouter } from 'expo-router';
 import { useEffect, useMemo, useState } from 'react';
 import { Alert, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
+import { evaluatePasswordStrength } from '@/services/password';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { initializeSecurity, setSecurityPassword } from '@/store/slices/securitySlice';
 
-type PasswordStrength = 'low' | 'middle' | 'high';
-
-const evaluatePasswordStrength = (password: string): PasswordStrength => {
-  if (!password) return 'low';
-
-  let score = 0;
-  if (password.length >= 8) score += 1;
-  if (password.length >= 12) score += 1;
-
-  const variety =
-    Number(/[a-z]/.test(password)) +
-    Number(/[A-Z]/.test(password)) +
-    Number(/\d/.test(password)) +
-    Number(/[^A-Za-z0-9]/.test(password));
-
-  if (variety >= 3) score += 1;
-
-  if (score >= 3) return 'high';
-  if (score >= 2) return 'middle';
-  return 'low';
-};
-
 export default function SetPasswordScreen() {
   const dispatch = useAppDispatch();
   const router = useRouter();
@@ -84,7 +63,7 @@ export default function SetPasswordScreen() {
           Secure your wallet
         </Text>
         <Text className="text-base text-gray-600 mb-8">
-          Set a password to protect access to your wallet on this device. You&apos;ll be asked for it whenever the app locks.
+          Set a password to protect access to your wallet on this device. Your recovery phrase and keys are encrypted with it, and you&apos;ll be asked for it whenever the app locks.
         </Text>
 
         <View className="mb-4">
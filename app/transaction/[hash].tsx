@@ -0,0 +1,203 @@
+import { useToast } from '@/components/toast';
+import { KeetaBlock, KeetaOperation, PublishResult, walletApi } from '@/services/api';
+import { describeError, failedResponseError } from '@/services/errors';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useLocalSearchParams } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Clipboard, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+const OPERATION_TITLES: Record<KeetaOperation['type'], string> = {
+  SEND: 'Send',
+  RECEIVE: 'Receive',
+  SET_REP: 'Set Representative',
+  SET_INFO: 'Set Info',
+  MODIFY_PERMISSIONS: 'Modify Permissions',
+  CREATE_IDENTIFIER: 'Create Identifier',
+  TOKEN_ADMIN_SUPPLY: 'Adjust Supply',
+  TOKEN_ADMIN_MODIFY_BALANCE: 'Adjust Balance',
+};
+
+const operationFields = (operation: KeetaOperation): [string, string | undefined][] => {
+  switch (operation.type) {
+    case 'SEND':
+      return [
+        ['To', operation.to],
+        ['Amount', operation.amount],
+        ['Token', operation.token],
+        ['External Reference', operation.external],
+      ];
+    case 'RECEIVE':
+      return [
+        ['From', operation.from],
+        ['Amount', operation.amount],
+        ['Token', operation.token],
+        ['Forward To', operation.forward],
+      ];
+    case 'SET_REP':
+      return [['Representative', operation.to]];
+    case 'SET_INFO':
+      return [
+        ['Name', operation.name],
+        ['Description', operation.description],
+        ['Metadata', operation.metadata],
+      ];
+    case 'MODIFY_PERMISSIONS':
+      return [
+        ['Principal', operation.principal],
+        ['Method', operation.method],
+        ['Permissions', operation.permissions.join(', ')],
+        ['Target', operation.target],
+      ];
+    case 'CREATE_IDENTIFIER':
+      return [['Identifier', operation.identifier]];
+    case 'TOKEN_ADMIN_SUPPLY':
+      return [
+        ['Method', operation.method],
+        ['Amount', operation.amount],
+      ];
+    case 'TOKEN_ADMIN_MODIFY_BALANCE':
+      return [
+        ['Token', operation.token],
+        ['Method', operation.method],
+        ['Amount', operation.amount],
+      ];
+    default:
+      return [];
+  }
+};
+
+// The representative is either stated on the block or changed by one of its operations
+const blockRepresentative = (block: KeetaBlock) => {
+  const setRep = block.operations.find((operation) => operation.type === 'SET_REP');
+  return block.representative || (setRep?.type === 'SET_REP' ? setRep.to : undefined);
+};
+
+export default function TransactionDetailScreen() {
+  const { hash } = useLocalSearchParams<{ hash: string }>();
+  const { showToast, currentToast } = useToast();
+  const [blocks, setBlocks] = useState<KeetaBlock[]>([]);
+  const [publish, setPublish] = useState<PublishResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadTransaction = useCallback(async () => {
+    if (!hash) {
+      return;
+    }
+    setLoading(true);
+    setError('');
+    try {
+      const response = await walletApi.getTransaction(hash);
+      if (!response.success || !response.data) {
+        throw failedResponseError(response, 'Transaction not found');
+      }
+      setBlocks(response.data.blocks || []);
+      setPublish(response.data.publish);
+    } catch (err) {
+      setError(describeError(err, 'Failed to load transaction'));
+    } finally {
+      setLoading(false);
+    }
+  }, [hash]);
+
+  useEffect(() => {
+    loadTransaction();
+  }, [loadTransaction]);
+
+  const handleCopy = (value: string, label: string) => {
+    try {
+      Clipboard.setString(value);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      showToast(`${label} copied to clipboard`, 'success');
+    } catch {
+      showToast('Failed to copy to clipboard', 'error');
+    }
+  };
+
+  const renderField = (label: string, value: string | null | undefined, key?: string) => {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    return (
+      <View key={key ?? label} className="flex-row items-center py-2 border-b border-gray-100">
+        <View className="flex-1 mr-2">
+          <Text className="text-xs text-gray-500 mb-1">{label}</Text>
+          <Text className="text-sm text-gray-900 font-mono" selectable>
+            {value}
+          </Text>
+        </View>
+        <TouchableOpacity className="p-2" onPress={() => handleCopy(value, label)}>
+          <Ionicons name="copy-outline" size={16} color="#2563eb" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-blue-50">
+      {currentToast}
+      <ScrollView contentContainerStyle={{ padding: 20 }}>
+        <View className="bg-white rounded-2xl p-5 border border-gray-200 mb-4">
+          <Text className="text-lg font-semibold text-black mb-2">Transaction</Text>
+          {renderField('Block Hash', hash)}
+          {publish && (
+            <>
+              {renderField('Published', publish.publish ? 'Yes' : 'No')}
+              {renderField('Published Via', publish.from)}
+              {renderField('Published At', publish.timestamp)}
+            </>
+          )}
+        </View>
+
+        {loading ? (
+          <View className="bg-white rounded-2xl p-6 items-center border border-gray-200">
+            <ActivityIndicator color="#2563eb" />
+            <Text className="text-gray-500 mt-3">Loading blocks...</Text>
+          </View>
+        ) : error ? (
+          <View className="bg-white rounded-2xl p-6 items-center border border-gray-200">
+            <Ionicons name="alert-circle-outline" size={36} color="#dc2626" />
+            <Text className="text-gray-700 mt-3 text-center">{error}</Text>
+            <TouchableOpacity className="mt-3" onPress={loadTransaction}>
+              <Text className="text-blue-600 font-semibold">Try again</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          blocks.map((block, index) => (
+            <View key={block.hash} className="bg-white rounded-2xl p-5 border border-gray-200 mb-4">
+              <Text className="text-base font-semibold text-black mb-2">
+                Block {index + 1} of {blocks.length}
+              </Text>
+              {renderField('Hash', block.hash)}
+              {renderField('Account', block.account)}
+              {renderField('Signer', block.signer)}
+              {renderField('Previous', block.previous)}
+              {renderField('Representative', blockRepresentative(block))}
+              {renderField('Date', block.date)}
+              {renderField('Network', block.network)}
+              {renderField('Signature', block.signature)}
+
+              <Text className="text-sm font-semibold text-gray-700 mt-4 mb-2">
+                Operations ({block.operations.length})
+              </Text>
+              {block.operations.map((operation, opIndex) => (
+                <View
+                  key={`${block.hash}-${opIndex}`}
+                  className="bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 mb-2"
+                >
+                  <Text className="text-sm font-semibold text-blue-600">
+                    {OPERATION_TITLES[operation.type] || operation.type}
+                  </Text>
+                  {operationFields(operation).map(([label, value]) =>
+                    renderField(label, value, `${block.hash}-${opIndex}-${label}`)
+                  )}
+                </View>
+              ))}
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
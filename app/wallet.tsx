@@ -1,57 +1,200 @@
-import { walletApi } from '@/services/api';
+import { resolveSigningKey } from '@/services/keyring';
+import { signAndTransfer } from '@/services/signer';
+import { AccountSwitcher } from '@/components/account-switcher';
+import { ActivityList } from '@/components/activity-list';
+import { NetworkBadge, NetworkPicker } from '@/components/network-picker';
+import { OfflineBanner } from '@/components/offline-banner';
+import { PendingTransactions } from '@/components/pending-transactions';
+import { QueuedSends } from '@/components/queued-sends';
+import { ReceiveModal } from '@/components/receive-modal';
+import { RecipientSuggestions } from '@/components/recipient-suggestions';
 import { useToast } from '@/components/toast';
 import { TokenSkeleton } from '@/components/skeleton';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { deleteWalletData, fetchAccountBalance, loadWalletFromStorage, setRefreshing } from '@/store/slices/walletSlice';
+import {
+  addDerivedAccount,
+  deleteWalletData,
+  fetchAccountBalance,
+  loadCachedBalance,
+  loadWalletFromStorage,
+  removeAccount,
+  renameAccount,
+  selectActiveBalance,
+  selectActiveBalanceRequest,
+  setRefreshing,
+  switchAccount,
+  WalletAccount,
+} from '@/store/slices/walletSlice';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { useFocusEffect } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
-import { useCallback, useEffect, useState } from 'react';
-import { ActivityIndicator, Alert, Clipboard, Modal, RefreshControl, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
-import QRCode from 'react-native-qrcode-svg';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Clipboard, Modal, RefreshControl, ScrollView, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
 import {
   forceLock,
   initializeSecurity,
   refreshLockState,
+  unlockWalletWithBiometrics,
   unlockWalletWithPassword,
   updateAutoLockDuration,
+  updateBiometricUnlock,
+  updateWipeAfterFailures,
+  WALLET_WIPED_MESSAGE,
 } from '@/store/slices/securitySlice';
+import {
+  fetchHistory,
+  fetchMoreHistory,
+  HistoryEntry,
+  loadCachedHistory,
+  selectHistory,
+} from '@/store/slices/historySlice';
+import {
+  dismissTransaction,
+  loadPendingTransactions,
+  markTransactionFailed,
+  PendingTransaction,
+  pollPendingTransactions,
+  selectPendingTransactions,
+  trackTransaction,
+} from '@/store/slices/pendingSlice';
+import { loadBackendEndpoints } from '@/store/slices/backendSlice';
+import {
+  loadNetworkSetting,
+  NetworkSetting,
+  resolveNetworkName,
+  selectNetworkName,
+  updateNetworkSetting,
+} from '@/store/slices/networkSlice';
+import {
+  checkConnectivity,
+  discardQueuedSend,
+  loadQueuedSends,
+  QueuedSend,
+  queueSend,
+  replayQueuedSend,
+} from '@/store/slices/offlineSlice';
+import {
+  resolveTokenMetadata,
+  selectTokenLookupError,
+  selectTokenMetadata,
+  selectTokenResolving,
+} from '@/store/slices/tokensSlice';
+import { findContact, loadAddressBook, recordRecipient } from '@/store/slices/addressBookSlice';
+import { paymentDraftConsumed, paymentDraftReceived } from '@/store/slices/paymentSlice';
+import { checkPaymentRequest, isPaymentRequestUri, PaymentRequest } from '@/services/paymentRequest';
+import { parseQrPayload } from '@/services/qrPayload';
+import { describeError, failedResponseError } from '@/services/errors';
+import { addressError, formatAddress, parseAddress } from '@/services/address';
+import { compareAmounts, formatAmount, parseAmount, toAmountInput } from '@/services/amount';
+import { displayDecimals, tokenDecimals, tokenLabel } from '@/services/tokenMetadata';
+import { Image } from 'expo-image';
 
 const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60];
+const PENDING_POLL_INTERVAL_MS = 5 * 1000;
+const CONNECTIVITY_PROBE_INTERVAL_MS = 15 * 1000;
+// Balances older than this are flagged even while online
+const STALE_BALANCE_MS = 5 * 60 * 1000;
+const WIPE_AFTER_OPTIONS: (number | null)[] = [null, 5, 10, 20];
 
 export default function WalletScreen() {
   const dispatch = useAppDispatch();
   const router = useRouter();
   const { showToast, currentToast } = useToast();
-  const { walletData, balance, tokens, loading, refreshing } = useAppSelector((state) => state.wallet);
-  const { locked, passwordSet, autoLockMinutes, initializing: securityInitializing } = useAppSelector(
-    (state) => state.security
-  );
+  const { walletData, accounts, activeAccountId, loading, refreshing } = useAppSelector((state) => state.wallet);
+  const { balance, tokens, updatedAt: balanceUpdatedAt } = useAppSelector(selectActiveBalance);
+  const balanceRequest = useAppSelector(selectActiveBalanceRequest);
+  const {
+    locked,
+    passwordSet,
+    autoLockMinutes,
+    lockoutUntil,
+    wipeAfterFailures,
+    biometricsAvailable,
+    biometricsEnabled,
+    biometricLabel,
+    initializing: securityInitializing,
+  } = useAppSelector((state) => state.security);
   const address = walletData?.address || null;
+  const historyFeed = useAppSelector((state) => selectHistory(state, address));
+  const pendingTransactions = useAppSelector(selectPendingTransactions);
+  const tokenMetadata = useAppSelector(selectTokenMetadata);
+  const networkState = useAppSelector((state) => state.network);
+  const networkName = useAppSelector(selectNetworkName);
+  const backendLoaded = useAppSelector((state) => state.backend.loaded);
+  const backendUrl = useAppSelector((state) => state.backend.activeUrl);
+  const {
+    online,
+    offlineSince,
+    checking: connectivityChecking,
+    queue: queuedSends,
+    replayingId,
+  } = useAppSelector((state) => state.offline);
+  const { contacts, recents: recentRecipients } = useAppSelector((state) => state.addressBook);
+  const paymentDraft = useAppSelector((state) => state.payment.draft);
+  const hasPendingTransfers = pendingTransactions.some((item) => item.status === 'pending');
+  // Confirmed transfers drop out once the activity feed includes them
+  const visiblePending = useMemo(() => {
+    const historyHashes = new Set(historyFeed.entries.map((entry) => entry.blockHash));
+    return pendingTransactions.filter(
+      (item) => item.account === address && !(item.status === 'confirmed' && historyHashes.has(item.hash))
+    );
+  }, [pendingTransactions, historyFeed.entries, address]);
+  const activeAccount = accounts.find((account) => account.id === activeAccountId) || null;
   const [settingsVisible, setSettingsVisible] = useState(false);
+  const [accountSwitcherVisible, setAccountSwitcherVisible] = useState(false);
+  const [networkPickerVisible, setNetworkPickerVisible] = useState(false);
+  const [queuedSendsDismissed, setQueuedSendsDismissed] = useState(false);
+  const wasOnlineRef = useRef(online);
+  const [derivingAccount, setDerivingAccount] = useState(false);
   const [addressModalVisible, setAddressModalVisible] = useState(false);
   const [sendModalVisible, setSendModalVisible] = useState(false);
   const [passwordInput, setPasswordInput] = useState('');
   const [unlockError, setUnlockError] = useState('');
   const [unlockLoading, setUnlockLoading] = useState(false);
   const [autoLockSaving, setAutoLockSaving] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [biometricSaving, setBiometricSaving] = useState(false);
+  const biometricPromptedRef = useRef(false);
   const [sendRecipient, setSendRecipient] = useState('');
   const [sendAmount, setSendAmount] = useState('');
   const [sendTokenAddress, setSendTokenAddress] = useState('');
   const [sendError, setSendError] = useState('');
+  // Memo and expiry of the payment request being paid, if any
+  const [sendRequest, setSendRequest] = useState<PaymentRequest | null>(null);
   const [sending, setSending] = useState(false);
-  const [validationErrors, setValidationErrors] = useState<{ recipient?: string; amount?: string }>({});
+  // Set while the scanner is open so the send form comes back when it closes
+  const reopenSendAfterScanRef = useRef(false);
+  const [validationErrors, setValidationErrors] = useState<{ recipient?: string; token?: string; amount?: string }>({});
+
+  // Token picked in the send modal; a blank address means the base token
+  const sendToken = sendTokenAddress.trim();
+  const sendDecimals = tokenDecimals(sendToken, tokenMetadata);
+  const sendTokenResolving = useAppSelector((state) => selectTokenResolving(state, sendToken));
+  const sendTokenLookupError = useAppSelector((state) => selectTokenLookupError(state, sendToken));
+  // A token typed, pasted or requested that the wallet hasn't seen needs its decimals before any amount is read
+  const sendTokenValid = Boolean(sendToken) && !addressError(sendToken, 'token');
+  const sendBlocked = sendDecimals === undefined;
+  // Metadata loaded, but it doesn't say how many decimals the token has
+  const sendDecimalsMissing = sendBlocked && Boolean(sendToken && tokenMetadata[sendToken]);
+  const balanceKnown = balanceUpdatedAt !== null;
+  const balanceStale = Boolean(
+    balanceUpdatedAt &&
+      (balanceRequest.stale || !online || Date.now() - balanceUpdatedAt > STALE_BALANCE_MS)
+  );
+  // Null when we don't know the balance, so a failed fetch never reads as zero funds
+  const sendAvailable = !balanceKnown
+    ? null
+    : sendToken
+      ? tokens.find((t) => t.address === sendToken)?.balance ?? null
+      : balance;
 
   const loadWalletData = useCallback(async () => {
     // Load wallet from storage first
     const result = await dispatch(loadWalletFromStorage());
     
-    if (loadWalletFromStorage.fulfilled.match(result) && result.payload) {
-      // Fetch balance and tokens
-      await dispatch(fetchAccountBalance(result.payload.address));
-    } else {
+    if (!loadWalletFromStorage.fulfilled.match(result) || !result.payload.walletData) {
       Alert.alert('Error', 'No wallet found. Please create or import a wallet.');
       router.replace('/');
     }
@@ -61,26 +204,174 @@ export default function WalletScreen() {
     loadWalletData();
   }, [loadWalletData]);
 
+  // Fetch balance, tokens and activity whenever the active account or network changes.
+  // Waits for the saved network and endpoints so the first request doesn't hit the defaults.
+  useEffect(() => {
+    if (address && networkState.loaded && backendLoaded) {
+      dispatch(loadCachedBalance(address));
+      dispatch(fetchAccountBalance(address));
+      dispatch(loadCachedHistory(address));
+      dispatch(fetchHistory(address));
+    }
+  }, [address, networkName, networkState.loaded, backendLoaded, dispatch]);
+
   useEffect(() => {
     dispatch(initializeSecurity());
+    dispatch(loadNetworkSetting());
+    dispatch(loadBackendEndpoints());
+    dispatch(loadPendingTransactions());
+    dispatch(loadQueuedSends());
+    dispatch(loadAddressBook());
   }, [dispatch]);
 
+  // While offline, keep probing the backend
+  useEffect(() => {
+    if (online) {
+      return;
+    }
+    const interval = setInterval(() => dispatch(checkConnectivity()), CONNECTIVITY_PROBE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [online, dispatch]);
+
+  // Once it answers again, refresh and ask about anything queued meanwhile
+  useEffect(() => {
+    if (online && !wasOnlineRef.current) {
+      setQueuedSendsDismissed(false);
+      if (address) {
+        dispatch(fetchAccountBalance(address));
+        dispatch(fetchHistory(address));
+      }
+    }
+    wasOnlineRef.current = online;
+  }, [online, address, dispatch]);
+
+  // Every token the screen mentions, joined so the effect only runs when the set changes
+  const referencedTokensKey = useMemo(() => {
+    const addresses = new Set<string>();
+    tokens.forEach((token) => token.address && addresses.add(token.address));
+    historyFeed.entries.forEach((entry) => entry.tokenAddress && addresses.add(entry.tokenAddress));
+    pendingTransactions.forEach((item) => item.tokenAddress && addresses.add(item.tokenAddress));
+    return Array.from(addresses).sort().join(',');
+  }, [tokens, historyFeed.entries, pendingTransactions]);
+
+  useEffect(() => {
+    if (referencedTokensKey) {
+      dispatch(resolveTokenMetadata(referencedTokensKey.split(',')));
+    }
+  }, [referencedTokensKey, networkName, dispatch]);
+
+  useEffect(() => {
+    if (sendTokenValid && sendBlocked && !sendDecimalsMissing && !sendTokenResolving && !sendTokenLookupError) {
+      dispatch(resolveTokenMetadata([sendToken]));
+    }
+  }, [sendToken, sendTokenValid, sendBlocked, sendDecimalsMissing, sendTokenResolving, sendTokenLookupError, dispatch]);
+
+  // The amount means something else once the decimals are known
+  useEffect(() => {
+    if (sendDecimals !== undefined) {
+      setValidationErrors((current) => (current.amount ? { ...current, amount: undefined } : current));
+    }
+  }, [sendDecimals]);
+
+  // Poll the node while any transfer is still unconfirmed
+  useEffect(() => {
+    if (!hasPendingTransfers) {
+      return;
+    }
+    dispatch(pollPendingTransactions());
+    const interval = setInterval(() => dispatch(pollPendingTransactions()), PENDING_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPendingTransfers, dispatch]);
+
   useFocusEffect(
     useCallback(() => {
       dispatch(refreshLockState());
+      if (reopenSendAfterScanRef.current) {
+        reopenSendAfterScanRef.current = false;
+        setSendModalVisible(true);
+      }
     }, [dispatch])
   );
 
+  // Prefill the send form from a scanned or pasted payment request. Waits until the wallet can sign.
+  const canSign = Boolean(walletData?.seed || walletData?.privateKey);
+  const watchOnly = Boolean(activeAccount?.watchOnly);
+  useEffect(() => {
+    if (!paymentDraft || (!canSign && !watchOnly)) {
+      return;
+    }
+    dispatch(paymentDraftConsumed());
+    if (watchOnly) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      Alert.alert('Watch-only Account', 'This account cannot send. Switch to an account you hold the keys for and try again.');
+      return;
+    }
+    try {
+      checkPaymentRequest(paymentDraft, networkName, tokenDecimals(paymentDraft.tokenAddress, tokenMetadata));
+    } catch (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      Alert.alert('Payment Request', describeError(error, 'This payment request cannot be used'));
+      return;
+    }
+    setSendRecipient(paymentDraft.recipient);
+    // A bare address keeps whatever token and amount were already entered
+    if (paymentDraft.amount) {
+      setSendTokenAddress(paymentDraft.tokenAddress || '');
+      setSendAmount(paymentDraft.amount);
+    } else if (paymentDraft.tokenAddress) {
+      setSendTokenAddress(paymentDraft.tokenAddress);
+    }
+    setSendRequest(paymentDraft.memo || paymentDraft.expiresAt ? paymentDraft : null);
+    setSendError('');
+    setValidationErrors({});
+    setSendModalVisible(true);
+  }, [paymentDraft, canSign, watchOnly, networkName, tokenMetadata, dispatch]);
+
   useEffect(() => {
     if (!securityInitializing && !passwordSet) {
       router.replace('/set-password');
     }
   }, [passwordSet, securityInitializing, router]);
 
+  const retryBalance = () => {
+    if (address) {
+      dispatch(fetchAccountBalance(address));
+    }
+  };
+
   const onRefresh = () => {
     if (address) {
       dispatch(setRefreshing(true));
       dispatch(fetchAccountBalance(address));
+      dispatch(fetchHistory(address));
+    }
+  };
+
+  const handleReplayQueuedSend = async (send: QueuedSend) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const result = await dispatch(replayQueuedSend(send.id));
+    if (replayQueuedSend.fulfilled.match(result)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showToast('Queued send submitted. Waiting for confirmation...', 'success', 4000);
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Send Failed', (result.payload as string) || 'Failed to send', [{ text: 'OK' }]);
+    }
+  };
+
+  const handleDiscardQueuedSend = (send: QueuedSend) => {
+    Alert.alert('Discard Send', 'This queued send will not be sent.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => dispatch(discardQueuedSend(send.id)) },
+    ]);
+  };
+
+  const handleSelectNetwork = async (setting: NetworkSetting) => {
+    const result = await dispatch(updateNetworkSetting(setting));
+    if (updateNetworkSetting.fulfilled.match(result)) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      setNetworkPickerVisible(false);
+      showToast(`Switched to ${resolveNetworkName(result.payload)}`, 'success');
     }
   };
 
@@ -94,27 +385,10 @@ export default function WalletScreen() {
     }
   };
 
-  const formatAddress = (addr: string) => {
-    if (!addr) return '';
-    if (addr.length <= 12) return addr;
-    return `${addr.slice(0, 6)}...${addr.slice(-6)}`;
-  };
-
-  /**
-   * Format balance for display
-   * KeetaNetwork uses whole units, so we format as whole numbers with thousands separators
-   */
-  const formatBalance = (bal: number | string) => {
-    const num = typeof bal === 'string' ? parseFloat(bal) : bal;
-    if (isNaN(num) || num === 0) return '0';
-    // Format large numbers with commas for readability
-    return num.toLocaleString('en-US', { maximumFractionDigits: 0 });
-  };
-
   const handleDeleteWallet = () => {
     Alert.alert(
       'Delete Wallet',
-      'This will permanently remove your wallet from this device. Make sure you have a backup before continuing.',
+      'This will permanently remove every account from this device. Make sure you have a backup of each one before continuing.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -139,7 +413,85 @@ export default function WalletScreen() {
     );
   };
 
+  const handleSwitchAccount = async (accountId: string) => {
+    setAccountSwitcherVisible(false);
+    if (accountId === activeAccountId) {
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const result = await dispatch(switchAccount(accountId));
+    if (switchAccount.rejected.match(result)) {
+      showToast((result.payload as string) || 'Failed to switch account', 'error');
+    }
+  };
+
+  const handleRenameAccount = async (accountId: string, name: string) => {
+    const result = await dispatch(renameAccount({ accountId, name }));
+    if (renameAccount.rejected.match(result)) {
+      showToast((result.payload as string) || 'Failed to rename account', 'error');
+    }
+  };
+
+  const handleRemoveAccount = (account: WalletAccount) => {
+    Alert.alert(
+      'Remove Account',
+      `Remove "${account.name}" from this device? Make sure you have a backup of its recovery phrase first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+            const result = await dispatch(removeAccount(account.id));
+            if (removeAccount.fulfilled.match(result)) {
+              showToast(`${account.name} removed`, 'success');
+            } else if (removeAccount.rejected.match(result)) {
+              showToast((result.payload as string) || 'Failed to remove account', 'error');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDeriveAccount = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDerivingAccount(true);
+    const result = await dispatch(addDerivedAccount());
+    setDerivingAccount(false);
+
+    if (addDerivedAccount.fulfilled.match(result)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setAccountSwitcherVisible(false);
+      showToast('New account added', 'success');
+    } else if (addDerivedAccount.rejected.match(result)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      showToast((result.payload as string) || 'Failed to add account', 'error');
+    }
+  };
+
+  const handleAddAccount = (route: '/create-wallet' | '/import-wallet') => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setAccountSwitcherVisible(false);
+    router.push(route);
+  };
+
+  const lockoutSeconds = lockoutUntil ? Math.max(0, Math.ceil((lockoutUntil - now) / 1000)) : 0;
+
+  // Tick once a second while the lock screen is in backoff
+  useEffect(() => {
+    if (!lockoutUntil || lockoutUntil <= Date.now()) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lockoutUntil]);
+
   const handleUnlockWallet = async () => {
+    if (lockoutSeconds > 0) {
+      return;
+    }
     if (!passwordInput.trim()) {
       setUnlockError('Enter your password to continue');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
@@ -157,8 +509,73 @@ export default function WalletScreen() {
       showToast('Wallet unlocked', 'success');
     } else {
       const errorMsg = (result.payload as string) || 'Incorrect password. Please try again.';
-      setUnlockError(errorMsg);
+      setPasswordInput('');
+      setNow(Date.now());
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      if (errorMsg === WALLET_WIPED_MESSAGE) {
+        showToast(errorMsg, 'error');
+        router.replace('/');
+        return;
+      }
+      setUnlockError(errorMsg);
+    }
+  };
+
+  const handleBiometricUnlock = useCallback(async () => {
+    setUnlockLoading(true);
+    const result = await dispatch(unlockWalletWithBiometrics());
+    setUnlockLoading(false);
+
+    if (unlockWalletWithBiometrics.fulfilled.match(result)) {
+      setPasswordInput('');
+      setUnlockError('');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showToast('Wallet unlocked', 'success');
+    } else {
+      setUnlockError((result.payload as string) || 'Biometric unlock failed. Enter your password instead.');
+    }
+  }, [dispatch, showToast]);
+
+  // Offer biometrics once each time the lock screen appears; the password stays available
+  useEffect(() => {
+    if (!passwordSet || !locked) {
+      biometricPromptedRef.current = false;
+      return;
+    }
+    if (biometricsEnabled && !biometricPromptedRef.current) {
+      biometricPromptedRef.current = true;
+      handleBiometricUnlock();
+    }
+  }, [passwordSet, locked, biometricsEnabled, handleBiometricUnlock]);
+
+  const handleBiometricToggle = async (enabled: boolean) => {
+    setBiometricSaving(true);
+    const result = await dispatch(updateBiometricUnlock(enabled));
+    setBiometricSaving(false);
+
+    if (updateBiometricUnlock.fulfilled.match(result)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showToast(`${biometricLabel} unlock ${enabled ? 'turned on' : 'turned off'}`, 'success');
+    } else if (updateBiometricUnlock.rejected.match(result)) {
+      showToast((result.payload as string) || 'Failed to update biometric unlock.', 'error');
+    }
+  };
+
+  const handleWipeAfterChange = async (attempts: number | null) => {
+    if (attempts === wipeAfterFailures) {
+      return;
+    }
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const result = await dispatch(updateWipeAfterFailures(attempts));
+
+    if (updateWipeAfterFailures.fulfilled.match(result)) {
+      showToast(
+        attempts ? `Wallet will be erased after ${attempts} failed attempts` : 'Erase on failed attempts turned off',
+        'success'
+      );
+    } else if (updateWipeAfterFailures.rejected.match(result)) {
+      showToast((result.payload as string) || 'Failed to update wipe setting.', 'error');
     }
   };
 
@@ -179,6 +596,16 @@ export default function WalletScreen() {
     }
   };
 
+  const handleSelectActivity = (entry: HistoryEntry) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push({ pathname: '/transaction/[hash]', params: { hash: entry.blockHash } });
+  };
+
+  const handleSelectPending = (transaction: PendingTransaction) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push({ pathname: '/transaction/[hash]', params: { hash: transaction.hash } });
+  };
+
   const handleShowAddress = () => {
     if (!address) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
@@ -200,6 +627,38 @@ export default function WalletScreen() {
     router.push('/backup-wallet');
   };
 
+  const handleChangePassword = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSettingsVisible(false);
+    router.push('/change-password');
+  };
+
+  const handleBackendSettings = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSettingsVisible(false);
+    router.push('/backend-settings');
+  };
+
+  const handleAddressBook = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSettingsVisible(false);
+    router.push('/address-book');
+  };
+
+  // Offer to keep an address the user just sent to for the first time
+  const offerToSaveRecipient = (recipient: string) => {
+    if (findContact(contacts, recipient, networkName)) {
+      return;
+    }
+    Alert.alert('Save Address?', `Add ${formatAddress(recipient)} to your address book?`, [
+      { text: 'Not Now', style: 'cancel' },
+      {
+        text: 'Save',
+        onPress: () => router.push({ pathname: '/address-book', params: { address: recipient, network: networkName } }),
+      },
+    ]);
+  };
+
   const handleImmediateLock = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     setSettingsVisible(false);
@@ -216,6 +675,7 @@ export default function WalletScreen() {
     setSendAmount('');
     setSendTokenAddress('');
     setSendError('');
+    setSendRequest(null);
     setValidationErrors({});
   };
 
@@ -225,8 +685,12 @@ export default function WalletScreen() {
       showToast('Please create or import a wallet first', 'warning');
       return;
     }
-    const signerSecret = walletData?.seed || walletData?.privateKey;
-    if (!signerSecret) {
+    if (watchOnly) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      showToast('Watch-only accounts cannot send tokens', 'warning');
+      return;
+    }
+    if (!walletData?.seed && !walletData?.privateKey) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
       showToast('Unlock your wallet to send tokens', 'warning');
       return;
@@ -235,90 +699,176 @@ export default function WalletScreen() {
     setSendModalVisible(true);
   };
 
+  const handleScanRecipient = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // The modal would cover the scanner, so hide it without clearing the form
+    setSendModalVisible(false);
+    reopenSendAfterScanRef.current = true;
+    router.push('/scan');
+  };
+
+  // A payment request typed or pasted into the recipient field fills in the whole form
+  const applyPaymentRequestText = (text: string) => {
+    try {
+      dispatch(paymentDraftReceived(parseQrPayload(text)));
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error: any) {
+      setSendRecipient(text);
+      setValidationErrors((current) => ({ ...current, recipient: error.message || 'This payment request is invalid' }));
+    }
+  };
+
+  const handlePasteRecipient = async () => {
+    const text = (await Clipboard.getString()).trim();
+    if (!text) {
+      showToast('Clipboard is empty', 'warning');
+      return;
+    }
+    applyPaymentRequestText(text);
+  };
+
   const handlePrefillToken = (tokenAddr: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setSendTokenAddress(tokenAddr);
+    setValidationErrors((current) => ({ ...current, token: undefined }));
   };
 
   // Validate send form
   const validateSendForm = () => {
-    const errors: { recipient?: string; amount?: string } = {};
+    const errors: { recipient?: string; token?: string; amount?: string } = {};
     
     if (!sendRecipient.trim()) {
       errors.recipient = 'Recipient address is required';
-    } else if (sendRecipient.trim().length < 10) {
-      errors.recipient = 'Recipient address appears invalid';
+    } else {
+      errors.recipient = addressError(sendRecipient, 'account') || undefined;
+      if (!errors.recipient && address && parseAddress(sendRecipient).address === address) {
+        errors.recipient = "That's this account's own address";
+      }
+    }
+
+    if (sendToken) {
+      errors.token = addressError(sendToken, 'token') || undefined;
     }
 
     if (!sendAmount.trim()) {
       errors.amount = 'Amount is required';
+    } else if (sendDecimals === undefined) {
+      errors.amount = sendDecimalsMissing
+        ? "This token doesn't state its decimal places, so the amount can't be read"
+        : "This token's decimal places aren't known yet, so the amount can't be read";
     } else {
-      const amountNum = parseFloat(sendAmount.trim());
-      if (isNaN(amountNum) || amountNum <= 0) {
+      const amountUnits = parseAmount(sendAmount, sendDecimals);
+      if (amountUnits === null && /^\d*\.\d+$/.test(sendAmount.trim())) {
+        errors.amount = sendDecimals > 0
+          ? `This token allows at most ${sendDecimals} decimal places`
+          : 'This token only supports whole units';
+      } else if (amountUnits === null || amountUnits <= BigInt(0)) {
         errors.amount = 'Amount must be a positive number';
-      } else {
-        // Check if sending token or base token
-        const selectedToken = tokens.find(t => t.address === sendTokenAddress);
-        if (selectedToken) {
-          const tokenBalance = parseFloat(selectedToken.balance);
-          if (amountNum > tokenBalance) {
-            errors.amount = `Insufficient balance. Available: ${formatBalance(tokenBalance)}`;
-          }
-        } else if (sendTokenAddress.trim() === '') {
-          // Base token - check total balance
-          if (amountNum > balance) {
-            errors.amount = `Insufficient balance. Available: ${formatBalance(balance)}`;
-          }
-        }
+      } else if (sendAvailable !== null && compareAmounts(amountUnits, sendAvailable) > 0) {
+        // Unknown tokens are left for the node to check
+        errors.amount = `Insufficient balance. Available: ${formatAmount(sendAvailable, sendDecimals)}`;
       }
     }
 
     setValidationErrors(errors);
-    return Object.keys(errors).length === 0;
+    return !errors.recipient && !errors.token && !errors.amount;
   };
 
+  // Cleared fields stay in the object as undefined
+  const hasValidationErrors = Object.values(validationErrors).some(Boolean);
+
   const handleSubmitSend = async () => {
-    const signerSecret = walletData?.seed || walletData?.privateKey;
-    if (!signerSecret) {
+    const signingKey = walletData ? resolveSigningKey(walletData, activeAccount?.derivationIndex) : null;
+    if (!address || !signingKey) {
       setSendError('Wallet seed is required to sign transfers.');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
       return;
     }
 
-    if (!validateSendForm()) {
+    const amountUnits = sendDecimals !== undefined ? parseAmount(sendAmount, sendDecimals) : null;
+    if (!validateSendForm() || amountUnits === null) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      return;
+    }
+    if (sendRequest?.expiresAt && sendRequest.expiresAt <= Date.now()) {
+      setSendError('This payment request has expired. Ask the recipient for a new one.');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
       return;
     }
+    const recipient = parseAddress(sendRecipient).address;
+
+    // Nothing is signed offline; the send waits for the user to confirm it later
+    if (!online) {
+      await dispatch(
+        queueSend({
+          account: address,
+          recipient,
+          amount: amountUnits.toString(),
+          tokenAddress: sendToken || null,
+          network: networkName,
+        })
+      );
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showToast("Send queued. You'll be asked to confirm it once you're back online.", 'info', 4000);
+      closeSendModal();
+      return;
+    }
 
     setSending(true);
     setSendError('');
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
     try {
-      const response = await walletApi.transferTokens({
-        seed: signerSecret.trim(),
-        recipient: sendRecipient.trim(),
-        amount: sendAmount.trim(),
-        tokenAddress: sendTokenAddress.trim() || undefined,
-        network: "main"
-      });
+      // Tracked as soon as it is signed, so a lost publish response still leaves the send visible
+      let signedHash: string | null = null;
+      const response = await signAndTransfer(
+        signingKey,
+        {
+          account: address,
+          recipient,
+          amount: amountUnits.toString(),
+          tokenAddress: sendToken || undefined,
+        },
+        async (blocks) => {
+          signedHash = blocks[0]?.hash || null;
+          if (signedHash) {
+            await dispatch(
+              trackTransaction({
+                hash: signedHash,
+                account: address,
+                recipient,
+                amount: amountUnits.toString(),
+                tokenAddress: sendToken || null,
+                network: networkName,
+              })
+            );
+          }
+        }
+      );
 
       if (!response.success) {
-        throw new Error(response.message || 'Transfer failed');
+        const error = failedResponseError(response, 'Transfer failed');
+        if (signedHash) {
+          dispatch(markTransactionFailed({ hash: signedHash, reason: error.message }));
+        }
+        throw error;
       }
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       showToast(
-        `Successfully sent ${formatBalance(response.data.amount)} units`,
+        `Sent ${formatAmount(response.data.amount, displayDecimals(response.data.tokenAddress, tokenMetadata))} ${tokenLabel(response.data.tokenAddress, tokenMetadata)}. Waiting for confirmation...`,
         'success',
         4000
       );
+      dispatch(recordRecipient({ address: recipient, network: networkName }));
       closeSendModal();
       if (address) {
         dispatch(fetchAccountBalance(address));
+        dispatch(fetchHistory(address));
       }
-    } catch (error: any) {
-      const message = error?.response?.data?.message || error?.message || 'Failed to send tokens';
+      offerToSaveRecipient(recipient);
+    } catch (error) {
+      const message = describeError(error, 'Failed to send tokens');
       setSendError(message);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       showToast(message, 'error');
@@ -343,12 +893,20 @@ export default function WalletScreen() {
         <View className="mb-6">
           <View className="flex-row items-center justify-between mb-4">
             <View>
-              <Text className="text-2xl font-bold text-black">
-                Wallet
-              </Text>
-              <Text className="text-sm text-gray-500 mt-1">
-                Manage your KeetaNet funds securely
-              </Text>
+              <TouchableOpacity onPress={() => setAccountSwitcherVisible(true)} activeOpacity={0.7}>
+                <View className="flex-row items-center">
+                  <Text className="text-2xl font-bold text-black">
+                    {activeAccount?.name || 'Wallet'}
+                  </Text>
+                  <Ionicons name="chevron-down" size={20} color="#1f2937" style={{ marginLeft: 6 }} />
+                </View>
+                <Text className="text-sm text-gray-500 mt-1">
+                  {accounts.length > 1
+                    ? `${accounts.length} accounts · tap to switch`
+                    : 'Manage your KeetaNet funds securely'}
+                </Text>
+              </TouchableOpacity>
+              <NetworkBadge setting={networkState} onPress={() => setNetworkPickerVisible(true)} />
             </View>
             <TouchableOpacity
               className="w-10 h-10 rounded-full bg-white border border-gray-200 items-center justify-center"
@@ -359,32 +917,75 @@ export default function WalletScreen() {
           </View>
         </View>
 
+        {!online && (
+          <OfflineBanner
+            offlineSince={offlineSince}
+            queuedCount={queuedSends.length}
+            checking={connectivityChecking}
+            onRetry={() => dispatch(checkConnectivity())}
+          />
+        )}
+
         {/* Balance Card */}
         <View className="bg-blue-500 rounded-xl p-6 mb-6 shadow-lg">
           <Text className="text-white text-sm mb-2">
             Total Balance
           </Text>
           <Text className="text-white text-3xl font-bold mb-1">
-            {formatBalance(balance)} KTA
+            {balanceKnown ? formatAmount(balance) : '--'} KTA
           </Text>
           <Text className="text-white text-xs">
             KeetaNet Token Amount
           </Text>
+          {balanceStale && balanceUpdatedAt && (
+            <View className="flex-row items-center mt-3">
+              <Ionicons name="time-outline" size={12} color="#dbeafe" />
+              <Text className="text-blue-100 text-xs ml-1">
+                Stale as of {new Date(balanceUpdatedAt).toLocaleString()}
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Tokens Section */}
         <View className="mb-6">
-          <Text className="text-lg font-semibold text-black mb-4">
-            Tokens
-          </Text>
+          <View className="flex-row items-center justify-between mb-4">
+            <Text className="text-lg font-semibold text-black">
+              Tokens
+            </Text>
+            {balanceStale && balanceUpdatedAt && (
+              <Text className="text-xs text-gray-400">
+                As of {new Date(balanceUpdatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </Text>
+            )}
+          </View>
           
-          {loading ? (
+          {balanceRequest.error && (
+            <View className="bg-red-50 border border-red-200 rounded-lg p-4 mb-3 flex-row items-center">
+              <Ionicons name="alert-circle-outline" size={22} color="#dc2626" />
+              <View className="flex-1 ml-3">
+                <Text className="text-red-700 font-semibold text-sm">
+                  {balanceKnown ? 'Could not refresh balances' : 'Could not load balances'}
+                </Text>
+                <Text className="text-red-600 text-xs mt-1">{balanceRequest.error}</Text>
+              </View>
+              <TouchableOpacity className="ml-2 px-3 py-2" onPress={retryBalance} disabled={balanceRequest.loading}>
+                {balanceRequest.loading ? (
+                  <ActivityIndicator size="small" color="#dc2626" />
+                ) : (
+                  <Text className="text-red-700 font-semibold text-xs">Retry</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {!balanceKnown && (balanceRequest.loading || !balanceRequest.error) ? (
             <View>
               <TokenSkeleton />
               <TokenSkeleton />
               <TokenSkeleton />
             </View>
-          ) : tokens.length === 0 ? (
+          ) : !balanceKnown ? null : tokens.length === 0 ? (
             <View className="bg-white rounded-lg p-6 items-center border border-gray-200">
               <Ionicons name="wallet-outline" size={48} color="#999" />
               <Text className="text-gray-500 mt-3 text-center">
@@ -398,6 +999,7 @@ export default function WalletScreen() {
             <View>
               {tokens.map((token: any, index: number) => {
                 const tokenAddress = token.address || '';
+                const metadata = tokenMetadata[tokenAddress];
                 return (
                   <TouchableOpacity
                     key={`${tokenAddress}-${index}`}
@@ -406,14 +1008,18 @@ export default function WalletScreen() {
                   >
                     <View className="flex-1">
                       <View className="flex-row items-center mb-1">
-                        <View className="w-10 h-10 bg-blue-100 rounded-full items-center justify-center mr-3">
-                          <Text className="text-blue-600 font-bold text-sm">
-                            {tokenAddress ? tokenAddress.slice(0, 2).toUpperCase() : '??'}
-                          </Text>
+                        <View className="w-10 h-10 bg-blue-100 rounded-full items-center justify-center mr-3 overflow-hidden">
+                          {metadata?.icon ? (
+                            <Image source={{ uri: metadata.icon }} style={{ width: 40, height: 40 }} />
+                          ) : (
+                            <Text className="text-blue-600 font-bold text-sm">
+                              {(metadata?.symbol || tokenAddress || '??').slice(0, 2).toUpperCase()}
+                            </Text>
+                          )}
                         </View>
                         <View className="flex-1">
                           <Text className="text-black font-semibold text-base">
-                            Token {index + 1}
+                            {metadata?.name || metadata?.symbol || `Token ${index + 1}`}
                           </Text>
                           <Text className="text-gray-500 text-xs font-mono">
                             {formatAddress(tokenAddress)}
@@ -423,10 +1029,10 @@ export default function WalletScreen() {
                     </View>
                     <View className="items-end">
                       <Text className="text-black font-semibold text-base">
-                        {formatBalance(token.balance)}
+                        {formatAmount(token.balance, displayDecimals(tokenAddress, tokenMetadata))}
                       </Text>
                       <Text className="text-gray-400 text-xs">
-                        Balance
+                        {metadata?.symbol || 'Balance'}
                       </Text>
                     </View>
                   </TouchableOpacity>
@@ -458,6 +1064,26 @@ export default function WalletScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Activity Section */}
+        <View className="mb-6">
+          <Text className="text-lg font-semibold text-black mb-4">
+            Activity
+          </Text>
+          <PendingTransactions
+            transactions={visiblePending}
+            tokenMetadata={tokenMetadata}
+            onSelect={handleSelectPending}
+            onDismiss={(transaction) => dispatch(dismissTransaction(transaction.hash))}
+          />
+          <ActivityList
+            feed={historyFeed}
+            tokenMetadata={tokenMetadata}
+            onLoadMore={() => address && dispatch(fetchMoreHistory(address))}
+            onRetry={() => address && dispatch(fetchHistory(address))}
+            onSelect={handleSelectActivity}
+          />
+        </View>
+
         {/* Token tools */}
         <View className="bg-white rounded-2xl p-5 border border-gray-200 mb-8">
           <View className="flex-row items-center justify-between mb-4">
@@ -485,53 +1111,49 @@ export default function WalletScreen() {
         </View>
       </ScrollView>
 
-      <Modal
+      <AccountSwitcher
+        visible={accountSwitcherVisible}
+        accounts={accounts}
+        activeAccountId={activeAccountId}
+        canDerive={Boolean(activeAccount?.keyringId && (walletData?.mnemonic || walletData?.seed))}
+        deriving={derivingAccount}
+        onClose={() => setAccountSwitcherVisible(false)}
+        onSelect={handleSwitchAccount}
+        onRename={handleRenameAccount}
+        onRemove={handleRemoveAccount}
+        onCreate={() => handleAddAccount('/create-wallet')}
+        onImport={() => handleAddAccount('/import-wallet')}
+        onDerive={handleDeriveAccount}
+      />
+
+      <QueuedSends
+        visible={Boolean(online && passwordSet && !locked && queuedSends.length > 0 && !queuedSendsDismissed)}
+        sends={queuedSends}
+        replayingId={replayingId}
+        tokenMetadata={tokenMetadata}
+        onSend={handleReplayQueuedSend}
+        onDiscard={handleDiscardQueuedSend}
+        onClose={() => setQueuedSendsDismissed(true)}
+      />
+
+      <NetworkPicker
+        visible={networkPickerVisible}
+        setting={networkState}
+        saving={networkState.saving}
+        error={networkState.error}
+        onClose={() => setNetworkPickerVisible(false)}
+        onSelect={handleSelectNetwork}
+      />
+
+      <ReceiveModal
         visible={addressModalVisible}
-        transparent
-        animationType="fade"
-        onRequestClose={() => setAddressModalVisible(false)}
-      >
-        <View className="flex-1 bg-black/60 items-center justify-center px-6">
-          <View className="w-full bg-white rounded-3xl p-6">
-            <View className="flex-row justify-between items-center mb-4">
-              <Text className="text-lg font-semibold text-black">
-                Receive Tokens
-              </Text>
-              <TouchableOpacity onPress={() => setAddressModalVisible(false)}>
-                <Ionicons name="close" size={22} color="#111827" />
-              </TouchableOpacity>
-            </View>
-            {address ? (
-              <>
-                <View className="bg-gray-50 rounded-2xl p-4 items-center mb-4">
-                  <QRCode value={address} size={180} color="#111827" backgroundColor="#fff" />
-                </View>
-                <View className="bg-gray-100 rounded-2xl p-3 mb-4">
-                  <Text className="text-xs text-gray-500 mb-1">
-                    Wallet Address
-                  </Text>
-                  <Text className="text-sm text-gray-900 font-mono">
-                    {address}
-                  </Text>
-                </View>
-                <TouchableOpacity
-                  className="flex-row items-center justify-center bg-blue-500 rounded-xl py-3"
-                  onPress={() => copyToClipboard(address, 'Address')}
-                >
-                  <Ionicons name="copy-outline" size={18} color="#fff" />
-                  <Text className="text-white font-semibold ml-2">
-                    Copy Address
-                  </Text>
-                </TouchableOpacity>
-              </>
-            ) : (
-              <Text className="text-center text-gray-500">
-                No wallet address available. Please create or import a wallet.
-              </Text>
-            )}
-          </View>
-        </View>
-      </Modal>
+        address={address}
+        network={networkName}
+        tokens={tokens}
+        tokenMetadata={tokenMetadata}
+        onCopy={copyToClipboard}
+        onClose={() => setAddressModalVisible(false)}
+      />
 
       <Modal
         visible={sendModalVisible}
@@ -556,19 +1178,37 @@ export default function WalletScreen() {
             </View>
 
             <View className="mb-4">
-              <Text className="text-xs font-semibold text-gray-600 mb-2">
-                Recipient Address
-              </Text>
+              <View className="flex-row items-center justify-between mb-2">
+                <Text className="text-xs font-semibold text-gray-600">
+                  Recipient Address
+                </Text>
+                <View className="flex-row items-center">
+                  <TouchableOpacity className="flex-row items-center mr-4" onPress={handlePasteRecipient} disabled={sending}>
+                    <Ionicons name="clipboard-outline" size={14} color="#3b82f6" />
+                    <Text className="text-xs text-blue-500 font-semibold ml-1">Paste</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity className="flex-row items-center" onPress={handleScanRecipient} disabled={sending}>
+                    <Ionicons name="qr-code-outline" size={14} color="#3b82f6" />
+                    <Text className="text-xs text-blue-500 font-semibold ml-1">Scan</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
               <TextInput
                 className={`border rounded-2xl px-4 py-3 text-sm text-gray-900 ${
                   validationErrors.recipient ? 'border-red-300 bg-red-50' : 'border-gray-200'
                 }`}
-                placeholder="Enter recipient address"
+                placeholder="Address or contact name"
                 placeholderTextColor="#9CA3AF"
                 autoCapitalize="none"
                 value={sendRecipient}
                 onChangeText={(text) => {
+                  // Pasted rather than typed one character at a time
+                  if (isPaymentRequestUri(text) && text.length - sendRecipient.length > 1) {
+                    applyPaymentRequestText(text);
+                    return;
+                  }
                   setSendRecipient(text);
+                  if (sendRequest) setSendRequest(null);
                   if (sendError) setSendError('');
                   if (validationErrors.recipient) {
                     setValidationErrors({ ...validationErrors, recipient: undefined });
@@ -580,17 +1220,31 @@ export default function WalletScreen() {
               {validationErrors.recipient && (
                 <Text className="text-xs text-red-600 mt-1">{validationErrors.recipient}</Text>
               )}
+              <RecipientSuggestions
+                query={sendRecipient}
+                network={networkName}
+                contacts={contacts}
+                recents={recentRecipients}
+                disabled={sending}
+                onSelect={(recipient) => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  setSendRecipient(recipient);
+                  if (validationErrors.recipient) {
+                    setValidationErrors({ ...validationErrors, recipient: undefined });
+                  }
+                }}
+              />
             </View>
 
             <View className="mb-4">
               <View className="flex-row items-center justify-between mb-2">
                 <Text className="text-xs font-semibold text-gray-600">
-                  Amount (whole units)
+                  Amount ({sendDecimals === 0 ? 'whole units' : tokenLabel(sendToken, tokenMetadata)})
                 </Text>
-                {sendTokenAddress.trim() === '' && balance > 0 && (
+                {sendAvailable !== null && sendDecimals !== undefined && compareAmounts(sendAvailable, '0') > 0 && (
                   <TouchableOpacity
                     onPress={() => {
-                      setSendAmount(balance.toString());
+                      setSendAmount(toAmountInput(sendAvailable, sendDecimals));
                       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
                     }}
                     disabled={sending}
@@ -605,10 +1259,10 @@ export default function WalletScreen() {
                 }`}
                 placeholder="Enter amount"
                 placeholderTextColor="#9CA3AF"
-                keyboardType="numeric"
+                keyboardType={sendDecimals === 0 ? 'numeric' : 'decimal-pad'}
                 value={sendAmount}
                 onChangeText={(text) => {
-                  setSendAmount(text.replace(/[^0-9]/g, ''));
+                  setSendAmount(text.replace(sendDecimals === 0 ? /[^0-9]/g : /[^0-9.]/g, ''));
                   if (sendError) setSendError('');
                   if (validationErrors.amount) {
                     setValidationErrors({ ...validationErrors, amount: undefined });
@@ -622,11 +1276,8 @@ export default function WalletScreen() {
               )}
               {!validationErrors.amount && sendAmount && (
                 <Text className="text-xs text-gray-500 mt-1">
-                  Available: {formatBalance(
-                    sendTokenAddress.trim() 
-                      ? tokens.find(t => t.address === sendTokenAddress)?.balance || '0'
-                      : balance.toString()
-                  )}
+                  Available:{' '}
+                  {sendAvailable !== null && sendDecimals !== undefined ? formatAmount(sendAvailable, sendDecimals) : '--'}
                 </Text>
               )}
             </View>
@@ -636,7 +1287,9 @@ export default function WalletScreen() {
                 Token Address (optional)
               </Text>
               <TextInput
-                className="border border-gray-200 rounded-2xl px-4 py-3 text-sm text-gray-900"
+                className={`border rounded-2xl px-4 py-3 text-sm text-gray-900 ${
+                  validationErrors.token ? 'border-red-300 bg-red-50' : 'border-gray-200'
+                }`}
                 placeholder="Leave blank for base token"
                 placeholderTextColor="#9CA3AF"
                 autoCapitalize="none"
@@ -644,12 +1297,39 @@ export default function WalletScreen() {
                 onChangeText={(text) => {
                   setSendTokenAddress(text);
                   if (sendError) setSendError('');
+                  if (validationErrors.token) {
+                    setValidationErrors({ ...validationErrors, token: undefined });
+                  }
+                }}
+                onBlur={() => {
+                  if (sendToken) {
+                    setValidationErrors({ ...validationErrors, token: addressError(sendToken, 'token') || undefined });
+                  }
                 }}
                 editable={!sending}
               />
-              <Text className="text-xs text-gray-500 mt-2">
-                Tap a token below to autofill or leave empty to send KTA.
-              </Text>
+              {validationErrors.token ? (
+                <Text className="text-xs text-red-600 mt-1">{validationErrors.token}</Text>
+              ) : sendTokenLookupError && sendBlocked ? (
+                <View className="flex-row items-center mt-1">
+                  <Text className="flex-1 text-xs text-red-600">
+                    {`Couldn't load this token's details: ${sendTokenLookupError}`}
+                  </Text>
+                  <TouchableOpacity onPress={() => dispatch(resolveTokenMetadata([sendToken]))} disabled={sendTokenResolving}>
+                    <Text className="text-xs text-blue-500 font-semibold ml-2">Retry</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : sendDecimalsMissing ? (
+                <Text className="text-xs text-red-600 mt-1">
+                  {"This token doesn't state its decimal places, so it can't be sent from here."}
+                </Text>
+              ) : sendTokenValid && sendBlocked ? (
+                <Text className="text-xs text-gray-500 mt-2">Loading token details...</Text>
+              ) : (
+                <Text className="text-xs text-gray-500 mt-2">
+                  Tap a token below to autofill or leave empty to send KTA.
+                </Text>
+              )}
             </View>
 
             {tokens.length > 0 && (
@@ -666,11 +1346,11 @@ export default function WalletScreen() {
                         onPress={() => handlePrefillToken(tokenAddress)}
                         disabled={sending}
                       >
-                        <Text className="text-xs font-mono text-gray-700">
-                          {formatAddress(tokenAddress)}
+                        <Text className="text-xs font-semibold text-gray-700">
+                          {tokenLabel(tokenAddress, tokenMetadata)}
                         </Text>
                         <Text className="text-[10px] text-gray-500">
-                          Bal: {formatBalance(token.balance)}
+                          Bal: {formatAmount(token.balance, displayDecimals(tokenAddress, tokenMetadata))}
                         </Text>
                       </TouchableOpacity>
                     );
@@ -679,19 +1359,33 @@ export default function WalletScreen() {
               </View>
             )}
 
+            {sendRequest && (
+              <View className="bg-blue-50 border border-blue-200 rounded-xl p-3 mb-4">
+                <Text className="text-xs font-semibold text-blue-700">Payment request</Text>
+                {sendRequest.memo ? (
+                  <Text className="text-xs text-blue-700 mt-1">For: {sendRequest.memo}</Text>
+                ) : null}
+                {sendRequest.expiresAt ? (
+                  <Text className="text-xs text-blue-600 mt-1">
+                    Expires {new Date(sendRequest.expiresAt).toLocaleString()}
+                  </Text>
+                ) : null}
+              </View>
+            )}
+
             {sendError ? (
               <Text className="text-xs text-red-600 mb-3">{sendError}</Text>
             ) : null}
 
             <TouchableOpacity
               className={`rounded-2xl py-4 items-center ${
-                Object.keys(validationErrors).length > 0 || sending
+                hasValidationErrors || sending || sendBlocked
                   ? 'bg-gray-400'
                   : 'bg-blue-500'
               }`}
               onPress={handleSubmitSend}
-              disabled={sending || Object.keys(validationErrors).length > 0}
-              style={{ opacity: sending || Object.keys(validationErrors).length > 0 ? 0.7 : 1 }}
+              disabled={sending || hasValidationErrors || sendBlocked}
+              style={{ opacity: sending || hasValidationErrors || sendBlocked ? 0.7 : 1 }}
             >
               {sending ? (
                 <View className="flex-row items-center">
@@ -702,7 +1396,7 @@ export default function WalletScreen() {
                 </View>
               ) : (
                 <Text className="text-white font-semibold text-base">
-                  Send Tokens
+                  {online ? 'Send Tokens' : 'Queue Send'}
                 </Text>
               )}
             </TouchableOpacity>
@@ -759,6 +1453,56 @@ export default function WalletScreen() {
                 Wallet locks after {autoLockMinutes} minute{autoLockMinutes === 1 ? '' : 's'} of inactivity.
               </Text>
             </View>
+            <View className="mb-5">
+              <Text className="text-sm font-semibold text-gray-700 mb-3">
+                Erase wallet after failed unlocks
+              </Text>
+              <View className="flex-row flex-wrap gap-2">
+                {WIPE_AFTER_OPTIONS.map((attempts) => {
+                  const isSelected = attempts === wipeAfterFailures;
+                  return (
+                    <TouchableOpacity
+                      key={attempts ?? 'off'}
+                      className={`px-4 py-2 rounded-xl border ${
+                        isSelected ? 'bg-red-500 border-red-500' : 'bg-gray-100 border-gray-200'
+                      }`}
+                      onPress={() => handleWipeAfterChange(attempts)}
+                      disabled={!passwordSet}
+                      style={{ opacity: passwordSet ? 1 : 0.5 }}
+                    >
+                      <Text className={`text-sm font-semibold ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+                        {attempts ? `${attempts} tries` : 'Off'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text className="text-xs text-gray-500 mt-3">
+                {wipeAfterFailures
+                  ? `All accounts are erased after ${wipeAfterFailures} wrong passwords in a row. Keep a backup.`
+                  : 'Wrong passwords only add a waiting period between attempts.'}
+              </Text>
+            </View>
+            {biometricsAvailable && (
+              <View className="bg-gray-100 border border-gray-200 rounded-xl p-4 flex-row items-center mb-4">
+                <View className="w-10 h-10 rounded-full bg-gray-200 items-center justify-center mr-3">
+                  <Ionicons name="finger-print-outline" size={20} color="#111827" />
+                </View>
+                <View className="flex-1">
+                  <Text className="text-gray-800 font-semibold text-base">
+                    Unlock with {biometricLabel}
+                  </Text>
+                  <Text className="text-gray-500 text-xs">
+                    Your password still works as a fallback
+                  </Text>
+                </View>
+                <Switch
+                  value={biometricsEnabled}
+                  onValueChange={handleBiometricToggle}
+                  disabled={!passwordSet || biometricSaving}
+                />
+              </View>
+            )}
             <TouchableOpacity
               className="bg-gray-100 border border-gray-200 rounded-xl p-4 flex-row items-center mb-4"
               onPress={handleImmediateLock}
@@ -777,6 +1521,56 @@ export default function WalletScreen() {
                 </Text>
               </View>
             </TouchableOpacity>
+            <TouchableOpacity
+              className="bg-gray-100 border border-gray-200 rounded-xl p-4 flex-row items-center mb-4"
+              onPress={handleChangePassword}
+              disabled={!passwordSet}
+              style={{ opacity: passwordSet ? 1 : 0.5 }}
+            >
+              <View className="w-10 h-10 rounded-full bg-gray-200 items-center justify-center mr-3">
+                <Ionicons name="key-outline" size={20} color="#111827" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-gray-800 font-semibold text-base">
+                  Change Password
+                </Text>
+                <Text className="text-gray-500 text-xs">
+                  Re-protect your keys with a new password
+                </Text>
+              </View>
+            </TouchableOpacity>
+            <TouchableOpacity
+              className="bg-gray-100 border border-gray-200 rounded-xl p-4 flex-row items-center mb-4"
+              onPress={handleAddressBook}
+            >
+              <View className="w-10 h-10 rounded-full bg-gray-200 items-center justify-center mr-3">
+                <Ionicons name="people-outline" size={20} color="#111827" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-gray-800 font-semibold text-base">
+                  Address Book
+                </Text>
+                <Text className="text-gray-500 text-xs">
+                  {contacts.length === 1 ? '1 saved contact' : `${contacts.length} saved contacts`}
+                </Text>
+              </View>
+            </TouchableOpacity>
+            <TouchableOpacity
+              className="bg-gray-100 border border-gray-200 rounded-xl p-4 flex-row items-center mb-4"
+              onPress={handleBackendSettings}
+            >
+              <View className="w-10 h-10 rounded-full bg-gray-200 items-center justify-center mr-3">
+                <Ionicons name="server-outline" size={20} color="#111827" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-gray-800 font-semibold text-base">
+                  Backend
+                </Text>
+                <Text className="text-gray-500 text-xs" numberOfLines={1}>
+                  {backendUrl}
+                </Text>
+              </View>
+            </TouchableOpacity>
             <TouchableOpacity
               className="bg-blue-50 border border-blue-200 rounded-xl p-4 flex-row items-center mb-4"
               onPress={handleBackupWallet}
@@ -849,7 +1643,7 @@ export default function WalletScreen() {
                     setUnlockError('');
                   }
                 }}
-                editable={!unlockLoading}
+                editable={!unlockLoading && lockoutSeconds === 0}
               />
               {unlockError ? (
                 <Text className="text-xs text-red-600 mt-2">{unlockError}</Text>
@@ -857,15 +1651,33 @@ export default function WalletScreen() {
             </View>
 
             <TouchableOpacity
-              className="bg-blue-500 rounded-2xl py-4 items-center"
+              className={`rounded-2xl py-4 items-center ${lockoutSeconds > 0 ? 'bg-gray-400' : 'bg-blue-500'}`}
               onPress={handleUnlockWallet}
-              disabled={unlockLoading}
+              disabled={unlockLoading || lockoutSeconds > 0}
               style={{ opacity: unlockLoading ? 0.7 : 1 }}
             >
               <Text className="text-white font-semibold text-base">
-                {unlockLoading ? 'Checking...' : 'Unlock Wallet'}
+                {unlockLoading
+                  ? 'Checking...'
+                  : lockoutSeconds > 0
+                    ? `Try again in ${lockoutSeconds}s`
+                    : 'Unlock Wallet'}
               </Text>
             </TouchableOpacity>
+
+            {biometricsEnabled && (
+              <TouchableOpacity
+                className="border border-blue-500 rounded-2xl py-4 mt-3 flex-row items-center justify-center"
+                onPress={handleBiometricUnlock}
+                disabled={unlockLoading}
+                style={{ opacity: unlockLoading ? 0.7 : 1 }}
+              >
+                <Ionicons name="finger-print-outline" size={20} color="#2196F3" />
+                <Text className="text-blue-500 font-semibold text-base ml-2">
+                  Use {biometricLabel}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </Modal>
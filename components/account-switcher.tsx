@@ -0,0 +1,168 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { formatAddress } from '@/services/address';
+import type { WalletAccount } from '@/store/slices/walletSlice';
+
+interface AccountSwitcherProps {
+  visible: boolean;
+  accounts: WalletAccount[];
+  activeAccountId: string | null;
+  canDerive: boolean;
+  deriving: boolean;
+  onClose: () => void;
+  onSelect: (accountId: string) => void;
+  onRename: (accountId: string, name: string) => void;
+  onRemove: (account: WalletAccount) => void;
+  onCreate: () => void;
+  onImport: () => void;
+  onDerive: () => void;
+}
+
+export function AccountSwitcher({
+  visible,
+  accounts,
+  activeAccountId,
+  canDerive,
+  deriving,
+  onClose,
+  onSelect,
+  onRename,
+  onRemove,
+  onCreate,
+  onImport,
+  onDerive,
+}: AccountSwitcherProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startEditing = (account: WalletAccount) => {
+    setEditingId(account.id);
+    setDraftName(account.name);
+  };
+
+  const submitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+    setDraftName('');
+  };
+
+  const handleClose = () => {
+    setEditingId(null);
+    setDraftName('');
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={handleClose}>
+      <View className="flex-1 justify-end">
+        <TouchableOpacity className="flex-1 bg-black/40" activeOpacity={1} onPress={handleClose} />
+        <View className="bg-white rounded-t-3xl p-6">
+          <View className="flex-row justify-between items-center mb-4">
+            <Text className="text-xl font-semibold text-black">Accounts</Text>
+            <TouchableOpacity onPress={handleClose}>
+              <Ionicons name="close" size={24} color="#111827" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={{ maxHeight: 360 }}>
+            {accounts.map((account) => {
+              const isActive = account.id === activeAccountId;
+              const isEditing = account.id === editingId;
+              return (
+                <TouchableOpacity
+                  key={account.id}
+                  className={`rounded-xl p-4 flex-row items-center mb-3 border ${
+                    isActive ? 'bg-blue-50 border-blue-300' : 'bg-gray-50 border-gray-200'
+                  }`}
+                  onPress={() => !isEditing && onSelect(account.id)}
+                  activeOpacity={isEditing ? 1 : 0.7}
+                >
+                  <View className="w-10 h-10 rounded-full bg-blue-100 items-center justify-center mr-3">
+                    <Text className="text-blue-600 font-bold text-sm">
+                      {account.name.slice(0, 1).toUpperCase()}
+                    </Text>
+                  </View>
+                  <View className="flex-1">
+                    {isEditing ? (
+                      <TextInput
+                        className="border border-gray-300 rounded-lg px-3 py-1 text-base text-gray-900 bg-white"
+                        value={draftName}
+                        onChangeText={setDraftName}
+                        onSubmitEditing={submitRename}
+                        autoFocus
+                        maxLength={32}
+                        placeholder="Account name"
+                        placeholderTextColor="#9CA3AF"
+                      />
+                    ) : (
+                      <Text className="text-black font-semibold text-base">{account.name}</Text>
+                    )}
+                    <Text className="text-gray-500 text-xs font-mono mt-1">
+                      {formatAddress(account.address)}
+                      {account.derivationIndex !== undefined ? `  ·  #${account.derivationIndex}` : ''}
+                      {account.watchOnly ? '  ·  Watch-only' : ''}
+                    </Text>
+                  </View>
+                  {isEditing ? (
+                    <TouchableOpacity className="ml-2 p-2" onPress={submitRename}>
+                      <Ionicons name="checkmark" size={20} color="#2563eb" />
+                    </TouchableOpacity>
+                  ) : (
+                    <>
+                      {isActive && <Ionicons name="checkmark-circle" size={20} color="#2563eb" />}
+                      <TouchableOpacity className="ml-2 p-2" onPress={() => startEditing(account)}>
+                        <Ionicons name="pencil-outline" size={18} color="#4b5563" />
+                      </TouchableOpacity>
+                      {accounts.length > 1 && (
+                        <TouchableOpacity className="p-2" onPress={() => onRemove(account)}>
+                          <Ionicons name="trash-outline" size={18} color="#dc2626" />
+                        </TouchableOpacity>
+                      )}
+                    </>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {canDerive && (
+            <TouchableOpacity
+              className="bg-blue-50 border border-blue-200 rounded-xl py-3 flex-row items-center justify-center mt-2"
+              onPress={onDerive}
+              disabled={deriving}
+              style={{ opacity: deriving ? 0.6 : 1 }}
+            >
+              {deriving ? (
+                <ActivityIndicator color="#2563eb" size="small" />
+              ) : (
+                <Ionicons name="git-branch-outline" size={18} color="#2563eb" />
+              )}
+              <Text className="text-blue-600 font-semibold ml-2">Add Account From Recovery Phrase</Text>
+            </TouchableOpacity>
+          )}
+
+          <View className="flex-row gap-2 mt-2">
+            <TouchableOpacity
+              className="flex-1 bg-blue-500 rounded-xl py-3 flex-row items-center justify-center"
+              onPress={onCreate}
+            >
+              <Ionicons name="add" size={18} color="#fff" />
+              <Text className="text-white font-semibold ml-1">New Account</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              className="flex-1 bg-white border border-blue-500 rounded-xl py-3 flex-row items-center justify-center"
+              onPress={onImport}
+            >
+              <Ionicons name="download-outline" size={18} color="#2196F3" />
+              <Text className="text-blue-500 font-semibold ml-1">Import</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
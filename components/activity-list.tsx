@@ -0,0 +1,131 @@
+import { Ionicons } from '@expo/vector-icons';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+
+import { formatAddress } from '@/services/address';
+import { formatAmount } from '@/services/amount';
+import { displayDecimals, tokenLabel, TokenMetadataMap } from '@/services/tokenMetadata';
+import type { HistoryEntry, HistoryEntryType, HistoryFeed } from '@/store/slices/historySlice';
+
+interface ActivityListProps {
+  feed: HistoryFeed;
+  tokenMetadata: TokenMetadataMap;
+  onLoadMore: () => void;
+  onRetry: () => void;
+  onSelect: (entry: HistoryEntry) => void;
+}
+
+const ENTRY_STYLES: Record<
+  HistoryEntryType,
+  { label: string; icon: keyof typeof Ionicons.glyphMap; color: string; background: string; sign: string }
+> = {
+  send: { label: 'Sent', icon: 'arrow-up-outline', color: '#dc2626', background: 'bg-red-50', sign: '-' },
+  receive: { label: 'Received', icon: 'arrow-down-outline', color: '#16a34a', background: 'bg-green-50', sign: '+' },
+  token_creation: {
+    label: 'Token Created',
+    icon: 'add-circle-outline',
+    color: '#2563eb',
+    background: 'bg-blue-50',
+    sign: '',
+  },
+};
+
+const formatTimestamp = (timestamp: string) => {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return '';
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const describeCounterparty = (entry: HistoryEntry, tokenMetadata: TokenMetadataMap) => {
+  if (entry.type === 'token_creation') {
+    return entry.tokenAddress ? tokenLabel(entry.tokenAddress, tokenMetadata) : 'New token';
+  }
+  if (!entry.counterparty) {
+    return 'Unknown account';
+  }
+  return `${entry.type === 'send' ? 'To' : 'From'} ${formatAddress(entry.counterparty)}`;
+};
+
+export function ActivityList({ feed, tokenMetadata, onLoadMore, onRetry, onSelect }: ActivityListProps) {
+  if (feed.loading && feed.entries.length === 0) {
+    return (
+      <View className="bg-white rounded-lg p-6 items-center border border-gray-200">
+        <ActivityIndicator color="#2563eb" />
+        <Text className="text-gray-500 mt-3 text-center">Loading activity...</Text>
+      </View>
+    );
+  }
+
+  if (feed.entries.length === 0) {
+    return (
+      <View className="bg-white rounded-lg p-6 items-center border border-gray-200">
+        <Ionicons name="time-outline" size={48} color="#999" />
+        <Text className="text-gray-500 mt-3 text-center">
+          {feed.error ? 'Could not load activity' : 'No activity yet'}
+        </Text>
+        {feed.error ? (
+          <TouchableOpacity className="mt-3" onPress={onRetry}>
+            <Text className="text-blue-600 font-semibold">Try again</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text className="text-gray-400 text-sm mt-1 text-center">
+            Sends, receives and token creations will appear here
+          </Text>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {feed.entries.map((entry) => {
+        const style = ENTRY_STYLES[entry.type] || ENTRY_STYLES.send;
+        return (
+          <TouchableOpacity
+            key={entry.blockHash}
+            className="bg-white rounded-lg p-4 border border-gray-200 flex-row items-center mb-3"
+            onPress={() => onSelect(entry)}
+          >
+            <View className={`w-10 h-10 rounded-full items-center justify-center mr-3 ${style.background}`}>
+              <Ionicons name={style.icon} size={20} color={style.color} />
+            </View>
+            <View className="flex-1">
+              <Text className="text-black font-semibold text-base">{style.label}</Text>
+              <Text className="text-gray-500 text-xs font-mono">{describeCounterparty(entry, tokenMetadata)}</Text>
+              <Text className="text-gray-400 text-[11px] font-mono mt-1">
+                {formatAddress(entry.blockHash)}
+              </Text>
+            </View>
+            <View className="items-end">
+              <Text className="text-black font-semibold text-base">
+                {style.sign}
+                {formatAmount(entry.amount, displayDecimals(entry.tokenAddress, tokenMetadata))}
+              </Text>
+              <Text className="text-gray-400 text-xs">
+                {tokenLabel(entry.tokenAddress, tokenMetadata)}
+              </Text>
+              <Text className="text-gray-400 text-[11px] mt-1">{formatTimestamp(entry.timestamp)}</Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      {feed.error ? (
+        <Text className="text-xs text-red-600 text-center mb-3">{feed.error}</Text>
+      ) : null}
+
+      {feed.nextCursor && (
+        <TouchableOpacity
+          className="bg-white border border-gray-200 rounded-xl py-3 items-center"
+          onPress={onLoadMore}
+          disabled={feed.loadingMore}
+        >
+          {feed.loadingMore ? (
+            <ActivityIndicator color="#2563eb" size="small" />
+          ) : (
+            <Text className="text-blue-600 font-semibold">Load more</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,86 @@
+import * as Linking from 'expo-linking';
+import { useRouter } from 'expo-router';
+import { useEffect, useRef } from 'react';
+import { Alert } from 'react-native';
+
+import { DeepLink, isAppDeepLink, parseDeepLink } from '@/services/deepLink';
+import { describeError } from '@/services/errors';
+import { hasWallet } from '@/services/walletStorage';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { deepLinkHandled, deepLinkReceived } from '@/store/slices/deepLinkSlice';
+import { paymentDraftReceived } from '@/store/slices/paymentSlice';
+import { refreshLockState } from '@/store/slices/securitySlice';
+
+/**
+ * Receives app links, holds them until the wallet is unlocked, then opens the
+ * matching screen prefilled. Nothing is sent or saved without the user confirming there.
+ */
+export function DeepLinkHandler() {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const { pending, lockChecked } = useAppSelector((state) => state.deepLink);
+  const locked = useAppSelector((state) => state.security.locked);
+  // The link we last sent the user to the unlock screen for
+  const unlockRequestedRef = useRef<DeepLink | null>(null);
+
+  useEffect(() => {
+    const receive = (url: string | null) => {
+      if (!url || !isAppDeepLink(url)) {
+        return;
+      }
+      try {
+        dispatch(deepLinkReceived(parseDeepLink(url)));
+        dispatch(refreshLockState());
+      } catch (error) {
+        Alert.alert('Link Not Opened', describeError(error, 'This link could not be read.'));
+      }
+    };
+
+    Linking.getInitialURL().then(receive).catch(() => undefined);
+    const subscription = Linking.addEventListener('url', ({ url }) => receive(url));
+    return () => subscription.remove();
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (!pending || !lockChecked) {
+      return;
+    }
+    // The unlock prompt lives on the wallet screen; the link is routed once it clears
+    if (locked) {
+      if (unlockRequestedRef.current !== pending) {
+        unlockRequestedRef.current = pending;
+        router.navigate('/wallet');
+      }
+      return;
+    }
+
+    unlockRequestedRef.current = null;
+    dispatch(deepLinkHandled());
+
+    const open = async () => {
+      switch (pending.type) {
+        case 'pay':
+          if (!(await hasWallet())) {
+            Alert.alert('No Wallet', 'Create or import a wallet before paying a request.');
+            return;
+          }
+          // The wallet screen opens the send form prefilled for the user to review
+          dispatch(paymentDraftReceived(pending.request));
+          router.navigate('/wallet');
+          return;
+        case 'import-watch-only':
+          router.push({
+            pathname: '/import-wallet',
+            params: { watchAddress: pending.address, watchName: pending.name || '' },
+          });
+          return;
+        case 'open-transaction':
+          router.push({ pathname: '/transaction/[hash]', params: { hash: pending.hash } });
+          return;
+      }
+    };
+    open().catch((error) => console.error('Error opening link:', error));
+  }, [pending, lockChecked, locked, dispatch, router]);
+
+  return null;
+}
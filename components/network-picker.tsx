@@ -0,0 +1,125 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { NETWORK_OPTIONS, resolveNetworkName } from '@/store/slices/networkSlice';
+import type { NetworkId, NetworkSetting } from '@/store/slices/networkSlice';
+
+interface NetworkPickerProps {
+  visible: boolean;
+  setting: NetworkSetting;
+  saving: boolean;
+  error: string | null;
+  onClose: () => void;
+  onSelect: (setting: NetworkSetting) => void;
+}
+
+const NETWORK_DETAILS: Record<NetworkId, { label: string; description: string; dotClassName: string }> = {
+  main: { label: 'Mainnet', description: 'Real funds', dotClassName: 'bg-green-500' },
+  test: { label: 'Testnet', description: 'Test funds with no value', dotClassName: 'bg-yellow-500' },
+  dev: { label: 'Devnet', description: 'Unstable development network', dotClassName: 'bg-purple-500' },
+  custom: { label: 'Custom', description: 'Any other network your backend serves', dotClassName: 'bg-gray-500' },
+};
+
+/**
+ * Pill showing which network the wallet is on
+ */
+export function NetworkBadge({ setting, onPress }: { setting: NetworkSetting; onPress: () => void }) {
+  return (
+    <TouchableOpacity
+      className="flex-row items-center self-start bg-white border border-gray-200 rounded-full px-3 py-1 mt-2"
+      onPress={onPress}
+    >
+      <View className={`w-2 h-2 rounded-full mr-2 ${NETWORK_DETAILS[setting.network].dotClassName}`} />
+      <Text className="text-xs font-semibold text-gray-700">
+        {setting.network === 'custom' ? resolveNetworkName(setting) : NETWORK_DETAILS[setting.network].label}
+      </Text>
+      <Ionicons name="chevron-down" size={12} color="#374151" style={{ marginLeft: 4 }} />
+    </TouchableOpacity>
+  );
+}
+
+export function NetworkPicker({ visible, setting, saving, error, onClose, onSelect }: NetworkPickerProps) {
+  const [customDraft, setCustomDraft] = useState(setting.customNetwork);
+  const [customSelected, setCustomSelected] = useState(setting.network === 'custom');
+
+  useEffect(() => {
+    if (visible) {
+      setCustomDraft(setting.customNetwork);
+      setCustomSelected(setting.network === 'custom');
+    }
+  }, [visible, setting]);
+
+  const handleSelect = (network: NetworkId) => {
+    if (network === 'custom') {
+      setCustomSelected(true);
+      return;
+    }
+    setCustomSelected(false);
+    onSelect({ network, customNetwork: setting.customNetwork });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 justify-end">
+        <TouchableOpacity className="flex-1 bg-black/40" activeOpacity={1} onPress={onClose} />
+        <View className="bg-white rounded-t-3xl p-6">
+          <View className="flex-row justify-between items-center mb-4">
+            <Text className="text-xl font-semibold text-black">Network</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#111827" />
+            </TouchableOpacity>
+          </View>
+
+          {NETWORK_OPTIONS.map((network) => {
+            const details = NETWORK_DETAILS[network];
+            const selected = network === 'custom' ? customSelected : !customSelected && setting.network === network;
+            return (
+              <TouchableOpacity
+                key={network}
+                className={`flex-row items-center border rounded-2xl px-4 py-3 mb-3 ${
+                  selected ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}
+                onPress={() => handleSelect(network)}
+                disabled={saving}
+              >
+                <View className={`w-3 h-3 rounded-full mr-3 ${details.dotClassName}`} />
+                <View className="flex-1">
+                  <Text className="text-black font-semibold">{details.label}</Text>
+                  <Text className="text-gray-500 text-xs">{details.description}</Text>
+                </View>
+                {selected && <Ionicons name="checkmark-circle" size={20} color="#2563eb" />}
+              </TouchableOpacity>
+            );
+          })}
+
+          {customSelected && (
+            <View className="mb-3">
+              <TextInput
+                className="border border-gray-200 rounded-2xl px-4 py-3 text-sm text-gray-900 mb-3"
+                placeholder="Network name"
+                placeholderTextColor="#9CA3AF"
+                autoCapitalize="none"
+                autoCorrect={false}
+                value={customDraft}
+                onChangeText={setCustomDraft}
+                editable={!saving}
+              />
+              <TouchableOpacity
+                className="bg-blue-500 rounded-2xl py-3 items-center"
+                onPress={() => onSelect({ network: 'custom', customNetwork: customDraft })}
+                disabled={saving || !customDraft.trim()}
+                style={{ opacity: saving || !customDraft.trim() ? 0.6 : 1 }}
+              >
+                <Text className="text-white font-semibold">Use Custom Network</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {saving && <ActivityIndicator color="#2563eb" />}
+          {error ? <Text className="text-xs text-red-600 text-center mt-2">{error}</Text> : null}
+        </View>
+      </View>
+    </Modal>
+  );
+}
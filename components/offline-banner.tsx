@@ -0,0 +1,38 @@
+import { Ionicons } from '@expo/vector-icons';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+
+interface OfflineBannerProps {
+  offlineSince: number | null;
+  queuedCount: number;
+  checking: boolean;
+  onRetry: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Shown while the wallet backend can't be reached
+ */
+export function OfflineBanner({ offlineSince, queuedCount, checking, onRetry }: OfflineBannerProps) {
+  return (
+    <View className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 mb-4 flex-row items-center">
+      <Ionicons name="cloud-offline-outline" size={22} color="#a16207" />
+      <View className="flex-1 ml-3">
+        <Text className="text-yellow-800 font-semibold text-sm">You&apos;re offline</Text>
+        <Text className="text-yellow-700 text-xs">
+          {offlineSince ? `Since ${formatTime(offlineSince)}. ` : ''}
+          Showing the last known balances.
+          {queuedCount > 0 ? ` ${queuedCount} queued ${queuedCount === 1 ? 'send' : 'sends'} will wait for you.` : ''}
+        </Text>
+      </View>
+      <TouchableOpacity className="ml-2 px-3 py-2" onPress={onRetry} disabled={checking}>
+        {checking ? (
+          <ActivityIndicator size="small" color="#a16207" />
+        ) : (
+          <Text className="text-yellow-800 font-semibold text-xs">Retry</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -0,0 +1,77 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Text, TouchableOpacity, View } from 'react-native';
+
+import { formatAddress } from '@/services/address';
+import { formatAmount } from '@/services/amount';
+import { displayDecimals, tokenLabel, TokenMetadataMap } from '@/services/tokenMetadata';
+import type { PendingStatus, PendingTransaction } from '@/store/slices/pendingSlice';
+
+interface PendingTransactionsProps {
+  transactions: PendingTransaction[];
+  tokenMetadata: TokenMetadataMap;
+  onSelect: (transaction: PendingTransaction) => void;
+  onDismiss: (transaction: PendingTransaction) => void;
+}
+
+const STATUS_CHIPS: Record<PendingStatus, { label: string; className: string; textClassName: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-100', textClassName: 'text-yellow-700' },
+  confirmed: { label: 'Confirmed', className: 'bg-green-100', textClassName: 'text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100', textClassName: 'text-red-700' },
+};
+
+export function StatusChip({ status }: { status: PendingStatus }) {
+  const chip = STATUS_CHIPS[status];
+  return (
+    <View className={`px-2 py-0.5 rounded-full ${chip.className}`}>
+      <Text className={`text-[11px] font-semibold ${chip.textClassName}`}>{chip.label}</Text>
+    </View>
+  );
+}
+
+/**
+ * Transfers sent from this device that the activity feed may not show yet
+ */
+export function PendingTransactions({ transactions, tokenMetadata, onSelect, onDismiss }: PendingTransactionsProps) {
+  if (transactions.length === 0) {
+    return null;
+  }
+
+  return (
+    <View className="mb-3">
+      {transactions.map((transaction) => (
+        <TouchableOpacity
+          key={transaction.hash}
+          className="bg-white rounded-lg p-4 border border-gray-200 flex-row items-center mb-3"
+          onPress={() => onSelect(transaction)}
+        >
+          <View className="w-10 h-10 rounded-full items-center justify-center mr-3 bg-yellow-50">
+            <Ionicons name="arrow-up-outline" size={20} color="#ca8a04" />
+          </View>
+          <View className="flex-1">
+            <View className="flex-row items-center">
+              <Text className="text-black font-semibold text-base mr-2">Sending</Text>
+              <StatusChip status={transaction.status} />
+            </View>
+            <Text className="text-gray-500 text-xs font-mono">To {formatAddress(transaction.recipient)}</Text>
+            {transaction.reason ? (
+              <Text className="text-red-600 text-[11px] mt-1">{transaction.reason}</Text>
+            ) : null}
+          </View>
+          <View className="items-end">
+            <Text className="text-black font-semibold text-base">
+              -{formatAmount(transaction.amount, displayDecimals(transaction.tokenAddress, tokenMetadata))}
+            </Text>
+            <Text className="text-gray-400 text-xs">
+              {tokenLabel(transaction.tokenAddress, tokenMetadata)}
+            </Text>
+          </View>
+          {transaction.status !== 'pending' && (
+            <TouchableOpacity className="ml-2 p-1" onPress={() => onDismiss(transaction)}>
+              <Ionicons name="close" size={18} color="#6b7280" />
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
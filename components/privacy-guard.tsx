@@ -0,0 +1,28 @@
+import { Ionicons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { ReactNode } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { useAutoLock } from '@/hooks/use-auto-lock';
+
+/**
+ * Tracks interaction for auto-lock and blurs the app whenever it is not in the
+ * foreground, so balances do not show up in the app switcher.
+ */
+export function PrivacyGuard({ children }: { children: ReactNode }) {
+  const { appState, onActivity } = useAutoLock();
+
+  return (
+    <View style={{ flex: 1 }} onTouchStart={onActivity}>
+      {children}
+      {appState !== 'active' && (
+        <BlurView intensity={80} tint="light" style={StyleSheet.absoluteFill}>
+          <View className="flex-1 items-center justify-center">
+            <Ionicons name="lock-closed" size={40} color="#2563eb" />
+            <Text className="text-lg font-semibold text-gray-800 mt-3">Alpaca Wallet</Text>
+          </View>
+        </BlurView>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,88 @@
+import { Ionicons } from '@expo/vector-icons';
+import { ActivityIndicator, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+import { formatAddress } from '@/services/address';
+import { formatAmount } from '@/services/amount';
+import { displayDecimals, tokenLabel, TokenMetadataMap } from '@/services/tokenMetadata';
+import type { QueuedSend } from '@/store/slices/offlineSlice';
+
+interface QueuedSendsProps {
+  visible: boolean;
+  sends: QueuedSend[];
+  replayingId: string | null;
+  tokenMetadata: TokenMetadataMap;
+  onSend: (send: QueuedSend) => void;
+  onDiscard: (send: QueuedSend) => void;
+  onClose: () => void;
+}
+
+/**
+ * Asks the user to confirm each send queued while offline before anything is signed
+ */
+export function QueuedSends({
+  visible,
+  sends,
+  replayingId,
+  tokenMetadata,
+  onSend,
+  onDiscard,
+  onClose,
+}: QueuedSendsProps) {
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 justify-end">
+        <TouchableOpacity className="flex-1 bg-black/40" activeOpacity={1} onPress={onClose} />
+        <View className="bg-white rounded-t-3xl p-6">
+          <View className="flex-row justify-between items-center mb-2">
+            <Text className="text-xl font-semibold text-black">Queued Sends</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#111827" />
+            </TouchableOpacity>
+          </View>
+          <Text className="text-sm text-gray-500 mb-4">
+            You&apos;re back online. Review each send before it goes out; nothing was signed while offline.
+          </Text>
+
+          <ScrollView style={{ maxHeight: 360 }}>
+            {sends.map((send) => {
+              const replaying = replayingId === send.id;
+              return (
+                <View key={send.id} className="border border-gray-200 rounded-2xl p-4 mb-3">
+                  <Text className="text-black font-semibold text-base">
+                    {formatAmount(send.amount, displayDecimals(send.tokenAddress, tokenMetadata))}{' '}
+                    {tokenLabel(send.tokenAddress, tokenMetadata)}
+                  </Text>
+                  <Text className="text-gray-500 text-xs font-mono mt-1">To {formatAddress(send.recipient)}</Text>
+                  <Text className="text-gray-400 text-[11px] mt-1">
+                    Queued {new Date(send.queuedAt).toLocaleString()} · {send.network}
+                  </Text>
+                  <View className="flex-row mt-3">
+                    <TouchableOpacity
+                      className="flex-1 bg-blue-500 rounded-xl py-3 items-center mr-2"
+                      onPress={() => onSend(send)}
+                      disabled={Boolean(replayingId)}
+                      style={{ opacity: replayingId && !replaying ? 0.6 : 1 }}
+                    >
+                      {replaying ? (
+                        <ActivityIndicator color="#fff" />
+                      ) : (
+                        <Text className="text-white font-semibold">Send Now</Text>
+                      )}
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      className="flex-1 bg-gray-100 border border-gray-200 rounded-xl py-3 items-center"
+                      onPress={() => onDiscard(send)}
+                      disabled={Boolean(replayingId)}
+                    >
+                      <Text className="text-gray-700 font-semibold">Discard</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
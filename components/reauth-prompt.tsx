@@ -0,0 +1,125 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import { Alert, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { confirmIdentity, WALLET_WIPED_MESSAGE } from '@/store/slices/securitySlice';
+
+interface ReauthPromptProps {
+  visible: boolean;
+  title: string;
+  message: string;
+  onCancel: () => void;
+  onConfirmed: () => void;
+}
+
+/**
+ * Password or biometric challenge shown before revealing or exporting secrets
+ */
+export function ReauthPrompt({ visible, title, message, onCancel, onConfirmed }: ReauthPromptProps) {
+  const dispatch = useAppDispatch();
+  const router = useRouter();
+  const { biometricsEnabled, biometricLabel } = useAppSelector((state) => state.security);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const reset = () => {
+    setPassword('');
+    setError('');
+  };
+
+  const handleCancel = () => {
+    reset();
+    onCancel();
+  };
+
+  const handleConfirm = async (credentials: Parameters<typeof confirmIdentity>[0]) => {
+    setChecking(true);
+    const result = await dispatch(confirmIdentity(credentials));
+    setChecking(false);
+
+    if (confirmIdentity.fulfilled.match(result)) {
+      reset();
+      onConfirmed();
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      if (result.payload === WALLET_WIPED_MESSAGE) {
+        reset();
+        onCancel();
+        Alert.alert('Wallet Erased', WALLET_WIPED_MESSAGE);
+        router.replace('/');
+        return;
+      }
+      setError((result.payload as string) || 'Could not confirm your identity.');
+    }
+  };
+
+  const handleSubmitPassword = () => {
+    if (!password) {
+      setError('Enter your password to continue');
+      return;
+    }
+    handleConfirm({ password });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleCancel}>
+      <View className="flex-1 bg-black/70 justify-center px-6">
+        <View className="bg-white rounded-3xl p-6">
+          <View className="items-center mb-4">
+            <Ionicons name="shield-checkmark-outline" size={32} color="#111827" />
+            <Text className="text-xl font-semibold text-black mt-3">{title}</Text>
+            <Text className="text-sm text-gray-500 mt-1 text-center">{message}</Text>
+          </View>
+
+          <View className="mb-4">
+            <Text className="text-xs font-semibold text-gray-600 mb-2">Password</Text>
+            <TextInput
+              className="border border-gray-200 rounded-2xl px-4 py-3 text-base text-gray-900"
+              secureTextEntry
+              placeholder="Enter password"
+              placeholderTextColor="#9CA3AF"
+              value={password}
+              onChangeText={(text) => {
+                setPassword(text);
+                if (error) {
+                  setError('');
+                }
+              }}
+              onSubmitEditing={handleSubmitPassword}
+              editable={!checking}
+            />
+            {error ? <Text className="text-xs text-red-600 mt-2">{error}</Text> : null}
+          </View>
+
+          <TouchableOpacity
+            className="bg-blue-500 rounded-2xl py-4 items-center"
+            onPress={handleSubmitPassword}
+            disabled={checking}
+            style={{ opacity: checking ? 0.7 : 1 }}
+          >
+            <Text className="text-white font-semibold text-base">{checking ? 'Checking...' : 'Confirm'}</Text>
+          </TouchableOpacity>
+
+          {biometricsEnabled && (
+            <TouchableOpacity
+              className="border border-blue-500 rounded-2xl py-4 mt-3 flex-row items-center justify-center"
+              onPress={() => handleConfirm({ biometric: true, prompt: title })}
+              disabled={checking}
+            >
+              <Ionicons name="finger-print-outline" size={20} color="#2196F3" />
+              <Text className="text-blue-500 font-semibold text-base ml-2">Use {biometricLabel}</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity className="py-3 mt-2 items-center" onPress={handleCancel} disabled={checking}>
+            <Text className="text-gray-600 font-semibold">Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,234 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import { Modal, ScrollView, Share, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+
+import { parseAmount, toAmountInput } from '@/services/amount';
+import { buildPaymentRequest, MAX_MEMO_LENGTH } from '@/services/paymentRequest';
+import { tokenDecimals, tokenLabel, TokenMetadataMap } from '@/services/tokenMetadata';
+import type { Token } from '@/store/slices/walletSlice';
+
+interface ReceiveModalProps {
+  visible: boolean;
+  address: string | null;
+  network: string;
+  tokens: Token[];
+  tokenMetadata: TokenMetadataMap;
+  onCopy: (text: string, label: string) => void;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: 'Never', hours: null },
+  { label: '1 hour', hours: 1 },
+  { label: '24 hours', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+];
+
+/**
+ * Shows the account address, or a payment request for a specific amount, as a QR code
+ */
+export function ReceiveModal({ visible, address, network, tokens, tokenMetadata, onCopy, onClose }: ReceiveModalProps) {
+  const [requesting, setRequesting] = useState(false);
+  const [amountInput, setAmountInput] = useState('');
+  const [tokenAddress, setTokenAddress] = useState('');
+  const [memo, setMemo] = useState('');
+  const [expiryHours, setExpiryHours] = useState<number | null>(null);
+  // Fixed when an expiry is picked so the QR doesn't change on every render
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setRequesting(false);
+      setAmountInput('');
+      setTokenAddress('');
+      setMemo('');
+      setExpiryHours(null);
+      setExpiresAt(null);
+    }
+  }, [visible]);
+
+  const decimals = tokenDecimals(tokenAddress, tokenMetadata);
+  const label = tokenLabel(tokenAddress, tokenMetadata);
+  const amountUnits = amountInput.trim() && decimals !== undefined ? parseAmount(amountInput, decimals) : null;
+  const amountError = !amountInput.trim()
+    ? ''
+    : decimals === undefined
+      ? "This token's decimal places aren't known yet, so an amount can't be requested"
+      : amountUnits === null || amountUnits <= BigInt(0)
+        ? decimals > 0
+          ? `Enter a positive amount with at most ${decimals} decimal places`
+          : 'Enter a positive whole number'
+        : '';
+  const amount =
+    amountUnits !== null && decimals !== undefined && amountUnits > BigInt(0) ? toAmountInput(amountUnits, decimals) : null;
+
+  const requestUri =
+    address && requesting
+      ? buildPaymentRequest({
+          recipient: address,
+          tokenAddress: tokenAddress || null,
+          amount,
+          memo: memo.trim() || null,
+          expiresAt,
+          network,
+        })
+      : null;
+
+  const shareText = () => {
+    if (!address) {
+      return '';
+    }
+    if (!requestUri) {
+      return `My KeetaNet address: ${address}`;
+    }
+    const lines = [amount ? `Please send ${amount} ${label} to ${address}` : `Please send ${label} to ${address}`];
+    if (memo.trim()) lines.push(`For: ${memo.trim()}`);
+    if (expiresAt) lines.push(`Expires ${new Date(expiresAt).toLocaleString()}`);
+    lines.push(requestUri);
+    return lines.join('\n');
+  };
+
+  const handleShare = async () => {
+    try {
+      await Share.share({ message: shareText() });
+    } catch (error) {
+      console.error('Error sharing payment request:', error);
+    }
+  };
+
+  const handleSelectExpiry = (hours: number | null) => {
+    setExpiryHours(hours);
+    setExpiresAt(hours ? Date.now() + hours * 60 * 60 * 1000 : null);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View className="flex-1 bg-black/60 items-center justify-center px-6">
+        <View className="w-full bg-white rounded-3xl p-6" style={{ maxHeight: '90%' }}>
+          <View className="flex-row justify-between items-center mb-4">
+            <Text className="text-lg font-semibold text-black">
+              {requesting ? 'Request Payment' : 'Receive Tokens'}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color="#111827" />
+            </TouchableOpacity>
+          </View>
+          {address ? (
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <View className="bg-gray-50 rounded-2xl p-4 items-center mb-4">
+                <QRCode value={requestUri || address} size={180} color="#111827" backgroundColor="#fff" />
+                {requestUri && amount && (
+                  <Text className="text-sm font-semibold text-gray-900 mt-3">
+                    {amount} {label}
+                  </Text>
+                )}
+              </View>
+              <View className="bg-gray-100 rounded-2xl p-3 mb-4">
+                <Text className="text-xs text-gray-500 mb-1">Wallet Address</Text>
+                <Text className="text-sm text-gray-900 font-mono">{address}</Text>
+              </View>
+
+              <View className="flex-row items-center justify-between mb-4">
+                <Text className="text-sm font-semibold text-gray-700">Request a specific amount</Text>
+                <Switch value={requesting} onValueChange={setRequesting} />
+              </View>
+
+              {requesting && (
+                <View className="mb-4">
+                  <Text className="text-xs font-semibold text-gray-600 mb-2">Token</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+                    {['', ...tokens.map((token) => token.address)].map((candidate) => {
+                      const selected = tokenAddress === candidate;
+                      return (
+                        <TouchableOpacity
+                          key={candidate || 'base'}
+                          className={`px-3 py-2 rounded-full mr-2 border ${
+                            selected ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-200'
+                          }`}
+                          onPress={() => setTokenAddress(candidate)}
+                        >
+                          <Text className={`text-xs font-semibold ${selected ? 'text-white' : 'text-gray-700'}`}>
+                            {tokenLabel(candidate, tokenMetadata)}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </ScrollView>
+
+                  <Text className="text-xs font-semibold text-gray-600 mb-2">Amount</Text>
+                  <TextInput
+                    className={`border rounded-2xl px-4 py-3 text-sm text-gray-900 ${
+                      amountError ? 'border-red-300 bg-red-50' : 'border-gray-200'
+                    }`}
+                    placeholder="Leave blank to let the payer choose"
+                    placeholderTextColor="#9CA3AF"
+                    keyboardType={decimals === 0 ? 'number-pad' : 'decimal-pad'}
+                    value={amountInput}
+                    onChangeText={setAmountInput}
+                  />
+                  {amountError ? <Text className="text-xs text-red-600 mt-1">{amountError}</Text> : null}
+
+                  <Text className="text-xs font-semibold text-gray-600 mt-3 mb-2">Memo</Text>
+                  <TextInput
+                    className="border border-gray-200 rounded-2xl px-4 py-3 text-sm text-gray-900"
+                    placeholder="What is this for? (optional)"
+                    placeholderTextColor="#9CA3AF"
+                    maxLength={MAX_MEMO_LENGTH}
+                    value={memo}
+                    onChangeText={setMemo}
+                  />
+
+                  <Text className="text-xs font-semibold text-gray-600 mt-3 mb-2">Expires</Text>
+                  <View className="flex-row flex-wrap">
+                    {EXPIRY_OPTIONS.map((option) => {
+                      const selected = expiryHours === option.hours;
+                      return (
+                        <TouchableOpacity
+                          key={option.label}
+                          className={`px-3 py-2 rounded-full mr-2 mb-2 border ${
+                            selected ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-200'
+                          }`}
+                          onPress={() => handleSelectExpiry(option.hours)}
+                        >
+                          <Text className={`text-xs font-semibold ${selected ? 'text-white' : 'text-gray-700'}`}>
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
+              <View className="flex-row">
+                <TouchableOpacity
+                  className="flex-1 flex-row items-center justify-center bg-blue-500 rounded-xl py-3 mr-2"
+                  onPress={() => (requestUri ? onCopy(requestUri, 'Payment request') : onCopy(address, 'Address'))}
+                  disabled={Boolean(amountError)}
+                  style={{ opacity: amountError ? 0.6 : 1 }}
+                >
+                  <Ionicons name="copy-outline" size={18} color="#fff" />
+                  <Text className="text-white font-semibold ml-2">{requestUri ? 'Copy Request' : 'Copy Address'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  className="flex-1 flex-row items-center justify-center bg-gray-100 border border-gray-200 rounded-xl py-3"
+                  onPress={handleShare}
+                  disabled={Boolean(amountError)}
+                  style={{ opacity: amountError ? 0.6 : 1 }}
+                >
+                  <Ionicons name="share-outline" size={18} color="#111827" />
+                  <Text className="text-gray-900 font-semibold ml-2">Share</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          ) : (
+            <Text className="text-center text-gray-500">
+              No wallet address available. Please create or import a wallet.
+            </Text>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,92 @@
+import { Ionicons } from '@expo/vector-icons';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+import { formatAddress } from '@/services/address';
+import { Contact, findContact, RecentRecipient, searchContacts } from '@/store/slices/addressBookSlice';
+
+interface RecipientSuggestionsProps {
+  query: string;
+  network: string;
+  contacts: Contact[];
+  recents: RecentRecipient[];
+  disabled?: boolean;
+  onSelect: (address: string) => void;
+}
+
+const MAX_SUGGESTIONS = 4;
+
+/**
+ * Recent recipient chips while the field is empty, matching contacts while typing,
+ * and the contact's name once the address is one we know
+ */
+export function RecipientSuggestions({
+  query,
+  network,
+  contacts,
+  recents,
+  disabled,
+  onSelect,
+}: RecipientSuggestionsProps) {
+  const trimmed = query.trim();
+
+  if (!trimmed) {
+    const networkRecents = recents.filter((item) => item.network === network);
+    if (networkRecents.length === 0) {
+      return null;
+    }
+    return (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mt-2" keyboardShouldPersistTaps="handled">
+        {networkRecents.map((item) => {
+          const contact = findContact(contacts, item.address, network);
+          return (
+            <TouchableOpacity
+              key={item.address}
+              className="flex-row items-center px-3 py-2 rounded-full mr-2 border bg-white border-gray-200"
+              onPress={() => onSelect(item.address)}
+              disabled={disabled}
+            >
+              <Ionicons name="time-outline" size={12} color="#6b7280" />
+              <Text className="text-xs font-semibold text-gray-700 ml-1">
+                {contact?.name || formatAddress(item.address)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    );
+  }
+
+  const known = findContact(contacts, trimmed.toLowerCase(), network);
+  if (known) {
+    return (
+      <View className="flex-row items-center mt-1">
+        <Ionicons name="person-circle-outline" size={14} color="#16a34a" />
+        <Text className="text-xs text-green-700 ml-1">Sending to {known.name}</Text>
+      </View>
+    );
+  }
+
+  const matches = searchContacts(contacts, trimmed, network).slice(0, MAX_SUGGESTIONS);
+  if (matches.length === 0) {
+    return null;
+  }
+  return (
+    <View className="border border-gray-200 rounded-2xl mt-2 overflow-hidden">
+      {matches.map((contact, index) => (
+        <TouchableOpacity
+          key={contact.id}
+          className={`flex-row items-center px-4 py-3 bg-white ${index > 0 ? 'border-t border-gray-100' : ''}`}
+          onPress={() => onSelect(contact.address)}
+          disabled={disabled}
+        >
+          <Ionicons name="person-outline" size={16} color="#2563eb" />
+          <View className="flex-1 ml-3">
+            <Text className="text-sm font-semibold text-gray-900">{contact.name}</Text>
+            <Text className="text-xs text-gray-500 font-mono">{formatAddress(contact.address)}</Text>
+          </View>
+          {contact.tags.length > 0 && <Text className="text-[11px] text-gray-400">#{contact.tags[0]}</Text>}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
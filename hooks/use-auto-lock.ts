@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { forceLock, recordActivity, refreshLockState } from '@/store/slices/securitySlice';
+
+// Touches are frequent; persisting the activity time once in a while is enough
+const ACTIVITY_THROTTLE_MS = 15 * 1000;
+
+/**
+ * Locks the wallet after `autoLockMinutes` without interaction, including time
+ * spent in the background. Call `onActivity` from a touch handler at the root.
+ */
+export function useAutoLock() {
+  const dispatch = useAppDispatch();
+  const { passwordSet, locked, autoLockMinutes, lastUnlockedAt } = useAppSelector((state) => state.security);
+  const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
+  const previousAppStateRef = useRef<AppStateStatus>(AppState.currentState);
+  const lastActivityRef = useRef(0);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      const previous = previousAppStateRef.current;
+      previousAppStateRef.current = nextState;
+      setAppState(nextState);
+
+      if (nextState === 'background') {
+        dispatch(recordActivity());
+      } else if (nextState === 'active' && previous === 'background') {
+        // Biometric prompts only make the app inactive, so they do not trigger a re-check
+        dispatch(refreshLockState());
+      }
+    });
+    return () => subscription.remove();
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (!passwordSet || locked || !lastUnlockedAt || appState !== 'active') {
+      return;
+    }
+    const remaining = lastUnlockedAt + autoLockMinutes * 60 * 1000 - Date.now();
+    const timer = setTimeout(() => dispatch(forceLock()), Math.max(0, remaining));
+    return () => clearTimeout(timer);
+  }, [passwordSet, locked, lastUnlockedAt, autoLockMinutes, appState, dispatch]);
+
+  const onActivity = useCallback(() => {
+    const now = Date.now();
+    if (now - lastActivityRef.current < ACTIVITY_THROTTLE_MS) {
+      return;
+    }
+    lastActivityRef.current = now;
+    dispatch(recordActivity());
+  }, [dispatch]);
+
+  return { appState, onActivity };
+}
@@ -0,0 +1,56 @@
+import { buildPaymentRequest, checkPaymentRequest, parsePaymentRequest } from '../paymentRequest';
+import { accountFromPrivateKey, encodeAddress, KeyAlgorithm } from '../keyring';
+
+const account = accountFromPrivateKey('22'.repeat(32)).address;
+const token = encodeAddress(new Uint8Array(32).fill(9), KeyAlgorithm.TOKEN);
+const NOW = Date.UTC(2026, 0, 1);
+
+describe('parsePaymentRequest', () => {
+  it('round-trips a request built by buildPaymentRequest', () => {
+    const request = {
+      recipient: account,
+      tokenAddress: token,
+      amount: '0.25',
+      memo: 'Invoice #7 & tip',
+      expiresAt: NOW + 60 * 60 * 1000,
+      network: 'main',
+    };
+    expect(parsePaymentRequest(buildPaymentRequest(request), NOW)).toEqual(request);
+  });
+
+  it('rejects amounts that are not positive decimals', () => {
+    expect(() => parsePaymentRequest(`keeta:${account}?amount=0`, NOW)).toThrow('not a positive number');
+    expect(() => parsePaymentRequest(`keeta:${account}?amount=-1`, NOW)).toThrow('not a positive number');
+    expect(() => parsePaymentRequest(`keeta:${account}?amount=1e5`, NOW)).toThrow('not a positive number');
+  });
+
+  it('rejects an expired request', () => {
+    const expires = Math.floor(NOW / 1000) - 1;
+    expect(() => parsePaymentRequest(`keeta:${account}?expires=${expires}`, NOW)).toThrow('expired');
+  });
+
+  it('rejects a token that is an account address', () => {
+    expect(() => parsePaymentRequest(`keeta:${account}?token=${account}`, NOW)).toThrow('not a token address');
+  });
+});
+
+describe('checkPaymentRequest', () => {
+  const request = parsePaymentRequest(`keeta:${account}?amount=1.125&token=${token}&network=test`, NOW);
+
+  it('accepts a request for this network within the token decimals', () => {
+    expect(() => checkPaymentRequest(request, 'test', 3)).not.toThrow();
+  });
+
+  it('rejects a request for another network', () => {
+    expect(() => checkPaymentRequest(request, 'main', 3)).toThrow('This request is for the test network');
+  });
+
+  it('rejects an amount with more decimals than the token allows', () => {
+    expect(() => checkPaymentRequest(request, 'test', 2)).toThrow('more than the 2 decimal places');
+    expect(() => checkPaymentRequest(request, 'test', 0)).toThrow('must be a whole number');
+  });
+
+  it('leaves the amount alone while the token decimals are unknown', () => {
+    expect(() => checkPaymentRequest(request, 'test')).not.toThrow();
+  });
+});
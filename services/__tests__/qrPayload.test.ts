@@ -0,0 +1,48 @@
+import { parseQrPayload } from '../qrPayload';
+import { accountFromPrivateKey, encodeAddress, KeyAlgorithm } from '../keyring';
+
+const account = accountFromPrivateKey('11'.repeat(32)).address;
+const token = encodeAddress(new Uint8Array(32).fill(7), KeyAlgorithm.TOKEN);
+
+// Change one character of the key so only the checksum gives the typo away
+const withTypo = (address: string) => `${address.slice(0, 12)}${address[12] === 'a' ? 'b' : 'a'}${address.slice(13)}`;
+
+describe('parseQrPayload', () => {
+  it('reads a bare account address', () => {
+    expect(parseQrPayload(`  ${account.toUpperCase()}\n`)).toEqual({
+      recipient: account,
+      tokenAddress: null,
+      amount: null,
+      memo: null,
+      expiresAt: null,
+      network: null,
+    });
+  });
+
+  it('reads a payment request with token and amount', () => {
+    const request = parseQrPayload(`keeta:${account}?amount=12.5&token=${token}&memo=Lunch%20split&network=test`);
+    expect(request).toMatchObject({
+      recipient: account,
+      tokenAddress: token,
+      amount: '12.5',
+      memo: 'Lunch split',
+      network: 'test',
+    });
+  });
+
+  it('rejects an address with a bad checksum', () => {
+    expect(() => parseQrPayload(withTypo(account))).toThrow('checksum');
+    expect(() => parseQrPayload(`keeta:${withTypo(account)}?amount=1`)).toThrow('checksum');
+  });
+
+  it('rejects text that is not a KeetaNet address', () => {
+    expect(() => parseQrPayload('bitcoin:1BoatSLRHtKNngkdXEeobR76b53LETtpyT')).toThrow(
+      "This code doesn't contain a KeetaNet address"
+    );
+    expect(() => parseQrPayload('   ')).toThrow('This code is empty');
+  });
+
+  it('rejects a token address as the recipient', () => {
+    expect(() => parseQrPayload(token)).toThrow('not an account');
+  });
+});
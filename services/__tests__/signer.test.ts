@@ -0,0 +1,191 @@
+import { sha3_256 } from '@noble/hashes/sha3';
+import { bytesToHex, concatBytes, hexToBytes } from '@noble/hashes/utils';
+
+import { parseAddress } from '../address';
+import { walletApi } from '../api';
+import { decodeBlock } from '../block';
+import { accountFromPrivateKey, encodeAddress, KeyAlgorithm, signBlocks, UnsignedBlock } from '../keyring';
+import { signAndCreateToken, signAndTransfer } from '../signer';
+
+jest.mock('../api', () => ({
+  walletApi: {
+    prepareTransfer: jest.fn(),
+    publishTransfer: jest.fn(),
+    prepareTokenCreation: jest.fn(),
+    publishTokenCreation: jest.fn(),
+  },
+}));
+
+const api = walletApi as jest.Mocked<typeof walletApi>;
+
+const signingKey = '33'.repeat(32);
+const account = accountFromPrivateKey(signingKey).address;
+const other = accountFromPrivateKey('44'.repeat(32)).address;
+const recipient = accountFromPrivateKey('55'.repeat(32)).address;
+const token = encodeAddress(new Uint8Array(32).fill(1), KeyAlgorithm.TOKEN);
+const baseToken = encodeAddress(new Uint8Array(32).fill(2), KeyAlgorithm.TOKEN);
+
+// Minimal DER writer for hand-built blocks
+const der = (tag: number, content: Uint8Array) => {
+  const length =
+    content.length < 0x80 ? Uint8Array.of(content.length) : Uint8Array.of(0x82, content.length >> 8, content.length & 0xff);
+  return concatBytes(Uint8Array.of(tag), length, content);
+};
+const sequence = (...fields: Uint8Array[]) => der(0x30, concatBytes(...fields));
+const operation = (tag: number, ...fields: Uint8Array[]) => der(0xa0 | tag, concatBytes(...fields));
+const integer = (value: number) => der(0x02, Uint8Array.of(0, value >> 8, value & 0xff));
+const accountField = (address: string) => {
+  const parsed = parseAddress(address);
+  return der(0x04, concatBytes(Uint8Array.of(parsed.algorithm), hexToBytes(parsed.publicKey)));
+};
+
+const SEND = 0;
+const SET_REP = 1;
+const SET_INFO = 2;
+const TOKEN_ADMIN_SUPPLY = 5;
+
+const send = (to: string, amount: number, tokenAddress: string) =>
+  operation(SEND, accountField(to), integer(amount), accountField(tokenAddress));
+
+const block = (signer: string, operations: Uint8Array[], subject = signer): UnsignedBlock => {
+  const bytes = sequence(integer(1), accountField(signer), accountField(subject), sequence(...operations));
+  return { hash: bytesToHex(sha3_256(bytes)), block: bytesToHex(bytes) };
+};
+
+const prepareTransfer = (...blocks: UnsignedBlock[]) =>
+  api.prepareTransfer.mockResolvedValue({ success: true, data: { blocks }, message: '' });
+
+const transfer = (overrides: { amount?: string; tokenAddress?: string } = {}) =>
+  signAndTransfer(signingKey, { account, recipient, amount: '250', tokenAddress: token, ...overrides });
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  api.publishTransfer.mockResolvedValue({ success: true, message: '' } as any);
+  api.publishTokenCreation.mockResolvedValue({ success: true, message: '' } as any);
+});
+
+describe('decodeBlock', () => {
+  it('reads the accounts and a send', () => {
+    expect(decodeBlock(block(account, [send(recipient, 250, token)]).block)).toEqual({
+      accounts: [account, account],
+      operations: [{ type: 'SEND', to: recipient, amount: BigInt(250), token }],
+    });
+  });
+
+  it('throws on truncated or padded bytes', () => {
+    const { block: hex } = block(account, [send(recipient, 250, token)]);
+    expect(() => decodeBlock(hex.slice(0, -2))).toThrow('truncated');
+    expect(() => decodeBlock(`${hex}00`)).toThrow('trailing data');
+  });
+});
+
+describe('signAndTransfer', () => {
+  it('signs and publishes the send the user confirmed', async () => {
+    const prepared = block(account, [send(recipient, 250, token)]);
+    prepareTransfer(prepared);
+    const onSigned = jest.fn().mockResolvedValue(undefined);
+
+    await signAndTransfer(signingKey, { account, recipient, amount: '250', tokenAddress: token }, onSigned);
+
+    expect(onSigned).toHaveBeenCalledWith([expect.objectContaining({ hash: prepared.hash, signature: expect.any(String) })]);
+    expect(api.publishTransfer).toHaveBeenCalledWith({ blocks: onSigned.mock.calls[0][0], network: undefined });
+  });
+
+  it('accepts any token for a base-token send', async () => {
+    prepareTransfer(block(account, [send(recipient, 250, baseToken)]));
+    await expect(transfer({ tokenAddress: undefined })).resolves.toBeDefined();
+  });
+
+  it.each([
+    ['a different recipient', send(other, 250, token), 'different recipient'],
+    ['a different amount', send(recipient, 251, token), 'different amount'],
+    ['a different token', send(recipient, 250, baseToken), 'different token'],
+  ])('refuses %s', async (_, prepared, message) => {
+    prepareTransfer(block(account, [prepared]));
+    await expect(transfer()).rejects.toThrow(message);
+    expect(api.publishTransfer).not.toHaveBeenCalled();
+  });
+
+  it('refuses a base-token send of something that is not a token', async () => {
+    prepareTransfer(block(account, [send(recipient, 250, other)]));
+    await expect(transfer({ tokenAddress: undefined })).rejects.toThrow('different token');
+  });
+
+  it('refuses an extra send, in the same block or another', async () => {
+    prepareTransfer(block(account, [send(recipient, 250, token), send(other, 1, token)]));
+    await expect(transfer()).rejects.toThrow('does more than the send you confirmed');
+
+    prepareTransfer(block(account, [send(recipient, 250, token)]), block(account, [send(other, 1, token)]));
+    await expect(transfer()).rejects.toThrow('does more than the send you confirmed');
+  });
+
+  it('refuses operations other than the send', async () => {
+    prepareTransfer(block(account, [send(recipient, 250, token), operation(SET_REP, accountField(other))]));
+    await expect(transfer()).rejects.toThrow('does more than the send you confirmed');
+  });
+
+  it('refuses blocks from another account', async () => {
+    prepareTransfer(block(other, [send(recipient, 250, token)]));
+    await expect(transfer()).rejects.toThrow('not from this account');
+  });
+
+  it('refuses blocks it cannot read', async () => {
+    prepareTransfer({ hash: '00'.repeat(32), block: '3003020101' });
+    await expect(transfer()).rejects.toThrow('Could not read the prepared blocks');
+    expect(api.publishTransfer).not.toHaveBeenCalled();
+  });
+
+  it('refuses a block whose hash does not match its bytes', async () => {
+    prepareTransfer({ ...block(account, [send(recipient, 250, token)]), hash: 'ab'.repeat(32) });
+    await expect(transfer()).rejects.toThrow('Block hash does not match block contents');
+    expect(api.publishTransfer).not.toHaveBeenCalled();
+  });
+});
+
+describe('signAndCreateToken', () => {
+  const createToken = (...blocks: UnsignedBlock[]) => {
+    api.prepareTokenCreation.mockResolvedValue({ success: true, data: { tokenAddress: token, blocks }, message: '' });
+    return signAndCreateToken(signingKey, { account, name: 'DEMO', symbol: 'DEMO', initialSupply: '1000' });
+  };
+
+  it('signs the usual token creation blocks', async () => {
+    await createToken(
+      block(account, [operation(TOKEN_ADMIN_SUPPLY, integer(1000)), operation(SET_INFO, integer(0))], token),
+      block(account, [send(account, 1000, token)], token)
+    );
+    expect(api.publishTokenCreation).toHaveBeenCalled();
+  });
+
+  it('refuses an operation not on the allow-list', async () => {
+    await expect(createToken(block(account, [operation(SET_REP, accountField(other))], token))).rejects.toThrow(
+      'unexpected operation'
+    );
+    expect(api.publishTokenCreation).not.toHaveBeenCalled();
+  });
+
+  it('refuses a send away from the account', async () => {
+    await expect(createToken(block(account, [send(other, 1000, token)], token))).rejects.toThrow(
+      'sends funds away from this account'
+    );
+  });
+
+  it('refuses blocks touching another account', async () => {
+    await expect(createToken(block(account, [operation(TOKEN_ADMIN_SUPPLY, integer(1))], other))).rejects.toThrow(
+      'not signed by this account'
+    );
+  });
+});
+
+describe('signBlocks', () => {
+  it('refuses a block whose hash does not match its bytes', () => {
+    const prepared = block(account, [send(recipient, 250, token)]);
+    expect(() => signBlocks([{ ...prepared, hash: '00'.repeat(32) }], signingKey)).toThrow(
+      'Block hash does not match block contents'
+    );
+  });
+
+  it('signs the hash of the block bytes', () => {
+    const prepared = block(account, [send(recipient, 250, token)]);
+    expect(signBlocks([prepared], signingKey)[0].signature).toMatch(/^[0-9a-f]{128}$/);
+  });
+});
@@ -0,0 +1,134 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import { base32nopad } from '@scure/base';
+
+import { ADDRESS_CHECKSUM_BYTES, ADDRESS_PREFIX, encodeAddress, KeyAlgorithm } from './keyring';
+
+export type AddressKind = 'account' | 'token' | 'network' | 'storage';
+
+export type AddressErrorCode = 'EMPTY' | 'PREFIX' | 'CHARACTERS' | 'LENGTH' | 'KEY_TYPE' | 'CHECKSUM' | 'WRONG_KIND';
+
+export interface ParsedAddress {
+  // Lowercase form, as the node prints it
+  address: string;
+  kind: AddressKind;
+  algorithm: KeyAlgorithm;
+  publicKey: string;
+}
+
+// Key bytes and kind for every type byte we know how to read
+const KEY_TYPES: Partial<Record<number, { kind: AddressKind; keyBytes: number }>> = {
+  [KeyAlgorithm.ECDSA_SECP256K1]: { kind: 'account', keyBytes: 33 },
+  [KeyAlgorithm.ED25519]: { kind: 'account', keyBytes: 32 },
+  [KeyAlgorithm.NETWORK]: { kind: 'network', keyBytes: 32 },
+  [KeyAlgorithm.TOKEN]: { kind: 'token', keyBytes: 32 },
+  [KeyAlgorithm.STORAGE]: { kind: 'storage', keyBytes: 32 },
+  [KeyAlgorithm.ECDSA_SECP256R1]: { kind: 'account', keyBytes: 33 },
+};
+
+const BASE32_REGEX = /^[a-z2-7]+$/;
+
+const KIND_LABELS: Record<AddressKind, string> = {
+  account: 'an account address',
+  token: 'a token address',
+  network: 'a network identifier',
+  storage: 'a storage account',
+};
+
+/**
+ * Why an address was rejected, worded for an inline form error
+ */
+export class AddressError extends Error {
+  code: AddressErrorCode;
+
+  constructor(code: AddressErrorCode, message: string) {
+    super(message);
+    this.name = 'AddressError';
+    this.code = code;
+  }
+}
+
+/**
+ * Decode a KeetaNet address and verify its prefix, key type, length and checksum
+ */
+export const parseAddress = (input: string): ParsedAddress => {
+  const address = input.trim().toLowerCase();
+  if (!address) {
+    throw new AddressError('EMPTY', 'Enter an address');
+  }
+  if (!address.startsWith(ADDRESS_PREFIX)) {
+    throw new AddressError('PREFIX', `KeetaNet addresses start with "${ADDRESS_PREFIX}"`);
+  }
+
+  const body = address.slice(ADDRESS_PREFIX.length);
+  if (!BASE32_REGEX.test(body)) {
+    throw new AddressError('CHARACTERS', 'Address contains characters that never appear in KeetaNet addresses');
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = base32nopad.decode(body.toUpperCase());
+  } catch {
+    throw new AddressError('LENGTH', 'Address is the wrong length. Make sure it was copied in full.');
+  }
+
+  const keyType = KEY_TYPES[bytes[0]];
+  if (!keyType) {
+    throw new AddressError('KEY_TYPE', 'Address uses a key type this wallet does not recognise');
+  }
+  if (bytes.length !== 1 + keyType.keyBytes + ADDRESS_CHECKSUM_BYTES) {
+    throw new AddressError('LENGTH', 'Address is the wrong length. Make sure it was copied in full.');
+  }
+
+  const algorithm = bytes[0] as KeyAlgorithm;
+  const publicKey = bytes.slice(1, 1 + keyType.keyBytes);
+  // Re-encoding recomputes the checksum, so any typo shows up as a mismatch
+  if (encodeAddress(publicKey, algorithm) !== address) {
+    throw new AddressError('CHECKSUM', 'Address checksum does not match. Check it for typos.');
+  }
+
+  return { address, kind: keyType.kind, algorithm, publicKey: bytesToHex(publicKey) };
+};
+
+/**
+ * Parse an address that must be of one kind, e.g. a send recipient must be an account
+ */
+export const parseAddressOfKind = (input: string, kind: AddressKind): ParsedAddress => {
+  const parsed = parseAddress(input);
+  if (parsed.kind !== kind) {
+    throw new AddressError(
+      'WRONG_KIND',
+      `This is ${KIND_LABELS[parsed.kind]}, not ${KIND_LABELS[kind]}`
+    );
+  }
+  return parsed;
+};
+
+/**
+ * Inline error text for a form field, or null when the address is fine
+ */
+export const addressError = (input: string, kind?: AddressKind): string | null => {
+  try {
+    if (kind) {
+      parseAddressOfKind(input, kind);
+    } else {
+      parseAddress(input);
+    }
+    return null;
+  } catch (error) {
+    return error instanceof AddressError ? error.message : 'Address is invalid';
+  }
+};
+
+/**
+ * Cheap check for text that was meant as an address, e.g. pasted into the wrong field
+ */
+export const looksLikeAddress = (input: string) => input.trim().toLowerCase().startsWith(ADDRESS_PREFIX);
+
+/**
+ * Shorten an address for display, keeping both ends so it can still be checked by eye
+ */
+export const formatAddress = (address: string, visibleChars = 6) => {
+  if (!address) return '';
+  if (address.length <= visibleChars * 2) return address;
+  return `${address.slice(0, visibleChars)}...${address.slice(-visibleChars)}`;
+};
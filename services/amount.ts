@@ -0,0 +1,100 @@
+/**
+ * Fixed-point amount helpers. Balances and transfer amounts travel as integer
+ * strings of base units and only become decimal text at the edges (inputs and
+ * labels), so nothing is ever rounded through a float.
+ */
+
+// The base token is counted in whole units
+export const NATIVE_TOKEN_DECIMALS = 0;
+
+const DECIMAL_INPUT_REGEX = /^(\d*)(?:\.(\d*))?$/;
+
+const pow10 = (decimals: number) => BigInt(10) ** BigInt(decimals);
+
+/**
+ * Read a base-unit amount. Invalid values count as zero.
+ */
+export const toUnits = (value: bigint | string | number | null | undefined): bigint => {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? BigInt(Math.trunc(value)) : BigInt(0);
+  }
+  if (!value) {
+    return BigInt(0);
+  }
+  try {
+    return BigInt(value.trim());
+  } catch {
+    return BigInt(0);
+  }
+};
+
+/**
+ * Normalize a balance from the API (decimal string, hex string or number) to a
+ * base-unit string
+ * @param balance - Balance value (string, number, or null)
+ * @param balanceHex - Optional hex balance value, used when balance is missing
+ * @returns String representation of the balance in base units
+ */
+export const normalizeAmount = (balance?: string | number | null, balanceHex?: string): string => {
+  return toUnits(balance ?? balanceHex).toString();
+};
+
+/**
+ * Parse user input such as "1,250.5" into base units
+ * @returns The amount in base units, or null when the text is not a valid amount
+ * or has more fraction digits than the token supports
+ */
+export const parseAmount = (input: string, decimals: number = NATIVE_TOKEN_DECIMALS): bigint | null => {
+  const match = DECIMAL_INPUT_REGEX.exec(input.trim().replace(/,/g, ''));
+  if (!match) {
+    return null;
+  }
+  const [, whole = '', fraction = ''] = match;
+  if (!whole && !fraction) {
+    return null;
+  }
+  if (fraction.length > decimals) {
+    return null;
+  }
+  return BigInt(whole || '0') * pow10(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+};
+
+/**
+ * Render base units as plain decimal text without grouping, e.g. for an input field
+ */
+export const toAmountInput = (units: bigint | string, decimals: number = NATIVE_TOKEN_DECIMALS): string => {
+  const value = toUnits(units);
+  const negative = value < BigInt(0);
+  const absolute = negative ? -value : value;
+  const whole = (absolute / pow10(decimals)).toString();
+  const fraction = decimals > 0 ? (absolute % pow10(decimals)).toString().padStart(decimals, '0').replace(/0+$/, '') : '';
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+/**
+ * Render base units for display with thousands separators
+ */
+export const formatAmount = (units: bigint | string, decimals: number = NATIVE_TOKEN_DECIMALS): string => {
+  const [whole, fraction] = toAmountInput(units, decimals).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return fraction ? `${grouped}.${fraction}` : grouped;
+};
+
+export const compareAmounts = (a: bigint | string, b: bigint | string): -1 | 0 | 1 => {
+  const left = toUnits(a);
+  const right = toUnits(b);
+  if (left === right) {
+    return 0;
+  }
+  return left < right ? -1 : 1;
+};
+
+export const addAmounts = (a: bigint | string, b: bigint | string): string => (toUnits(a) + toUnits(b)).toString();
+
+export const subtractAmounts = (a: bigint | string, b: bigint | string): string =>
+  (toUnits(a) - toUnits(b)).toString();
+
+export const isZeroAmount = (units: bigint | string): boolean => toUnits(units) === BigInt(0);
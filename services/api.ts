@@ -1,42 +1,250 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+
+import { toApiError } from './errors';
+import type { SignedBlock, UnsignedBlock } from './keyring';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Safe to send again after a transient failure. GETs always are.
+    idempotent?: boolean;
+    // Transient-failure retries already spent on this request
+    retryCount?: number;
+    // Set on the retry after switching endpoints so a request fails over at most once
+    failedOver?: boolean;
+  }
+}
 
 // Update this with your backend URL
 // For mobile devices, use your computer's IP address instead of localhost
 // Example: 'http://192.168.1.100:4000/api/v1'
 // For Android emulator, use: 'http://10.0.2.2:4000/api/v1'
 // For iOS simulator, use: 'http://localhost:4000/api/v1'
-const API_BASE_URL = __DEV__ 
+// Users can add their own endpoints from the Backend settings screen
+export const DEFAULT_API_BASE_URL = __DEV__ 
   ? 'http://localhost:7060/api/v1' 
   : 'http://localhost:7060/api/v1';
 
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+const REQUEST_TIMEOUT_MS = 15000;
+// Publishing waits for the vote staple, which can take a while
+const PUBLISH_TIMEOUT_MS = 45000;
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
 const api = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: DEFAULT_API_BASE_URL,
+  timeout: REQUEST_TIMEOUT_MS,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-export interface CreateWalletResponse {
-  success: boolean;
-  data: {
-    address: string;
-    publicKey: string;
-    mnemonic: string; // BIP39 mnemonic phrase (12 words)
-    seed: string; // Hex seed derived from mnemonic (for backward compatibility)
-    privateKey?: string; // Raw private key (optional)
-  };
-  message: string;
+// Endpoints to try in order when the active one is unreachable
+let endpoints: string[] = [DEFAULT_API_BASE_URL];
+let baseUrlListener: ((url: string) => void) | null = null;
+// Whether the last request reached a backend at all
+let reachable = true;
+let connectivityListener: ((online: boolean) => void) | null = null;
+
+/**
+ * Trim whitespace and trailing slashes, or return null when the text is not an http(s) URL
+ */
+export const normalizeEndpointUrl = (input: string): string | null => {
+  const trimmed = input.trim().replace(/\/+$/, '');
+  return /^https?:\/\/[^\s/?#]+(\/[^\s?#]*)?$/i.test(trimmed) ? trimmed : null;
+};
+
+export const getApiBaseUrl = () => api.defaults.baseURL || DEFAULT_API_BASE_URL;
+
+export const setApiBaseUrl = (url: string) => {
+  api.defaults.baseURL = url;
+  baseUrlListener?.(url);
+};
+
+/**
+ * Replace the fallback list and switch to its first entry
+ */
+export const setApiEndpoints = (urls: string[]) => {
+  endpoints = urls.length > 0 ? urls : [DEFAULT_API_BASE_URL];
+  setApiBaseUrl(endpoints[0]);
+};
+
+/**
+ * Be told when requests move to another endpoint, e.g. after a failover
+ */
+export const onApiBaseUrlChange = (listener: ((url: string) => void) | null) => {
+  baseUrlListener = listener;
+};
+
+/**
+ * Be told when requests stop reaching any backend, and when they reach one again
+ */
+export const onApiConnectivityChange = (listener: ((online: boolean) => void) | null) => {
+  connectivityListener = listener;
+};
+
+const reportConnectivity = (online: boolean) => {
+  if (online !== reachable) {
+    reachable = online;
+    connectivityListener?.(online);
+  }
+};
+
+export interface HealthCheckResult {
+  ok: boolean;
+  latencyMs: number | null;
+  message: string | null;
 }
 
-export interface ImportWalletResponse {
-  success: boolean;
-  data: {
-    address: string;
-    publicKey: string;
-    privateKey?: string;
-    seed?: string;
-  };
-  message: string;
+/**
+ * Ping an endpoint's health route. Uses a bare axios call so the failover below never kicks in.
+ */
+export const checkBackendHealth = async (url: string): Promise<HealthCheckResult> => {
+  const startedAt = Date.now();
+  try {
+    const response = await axios.get(`${url}/health`, { timeout: HEALTH_CHECK_TIMEOUT_MS });
+    if (response.data?.success === false) {
+      return { ok: false, latencyMs: null, message: response.data.message || 'Backend reported a problem' };
+    }
+    return { ok: true, latencyMs: Date.now() - startedAt, message: null };
+  } catch (error: any) {
+    const message = error.response
+      ? `Backend answered with status ${error.response.status}`
+      : error.code === 'ECONNABORTED'
+        ? 'Backend did not respond in time'
+        : 'Backend is unreachable';
+    return { ok: false, latencyMs: null, message };
+  }
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isIdempotent = (config: InternalAxiosRequestConfig) =>
+  config.idempotent || ['get', 'head', 'options'].includes((config.method || 'get').toLowerCase());
+
+const findHealthyEndpoint = async (): Promise<string | null> => {
+  const current = getApiBaseUrl();
+  for (const candidate of endpoints) {
+    if (candidate !== current && (await checkBackendHealth(candidate)).ok) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+/**
+ * Every failure leaves the client as an ApiError. Before giving up, transient failures
+ * of idempotent requests are retried with backoff, and an unreachable endpoint is
+ * swapped for the next healthy one. Non-idempotent requests (publishing) are never
+ * sent twice; they only move later requests to the healthy endpoint.
+ */
+api.interceptors.response.use(
+  (response) => {
+    reportConnectivity(true);
+    return response;
+  },
+  async (error: AxiosError) => {
+    const apiError = toApiError(error);
+    const config = error.config;
+    if (error.response) {
+      reportConnectivity(true);
+    }
+    if (!config) {
+      throw apiError;
+    }
+
+    const retryCount = config.retryCount ?? 0;
+    if (apiError.retryable && isIdempotent(config) && retryCount < MAX_RETRIES) {
+      await wait(RETRY_BASE_DELAY_MS * 2 ** retryCount);
+      return api.request({ ...config, retryCount: retryCount + 1 });
+    }
+
+    if (!error.response) {
+      const candidate = config.failedOver ? null : await findHealthyEndpoint();
+      if (!candidate) {
+        reportConnectivity(false);
+      } else {
+        setApiBaseUrl(candidate);
+        if (isIdempotent(config)) {
+          return api.request({ ...config, baseURL: candidate, failedOver: true, retryCount: 0 });
+        }
+      }
+    }
+
+    throw apiError;
+  }
+);
+
+/**
+ * Look for a reachable endpoint after going offline, starting with the current one
+ * @returns true once an endpoint answers its health check
+ */
+export const reconnect = async (): Promise<boolean> => {
+  const current = getApiBaseUrl();
+  for (const candidate of [current, ...endpoints.filter((endpoint) => endpoint !== current)]) {
+    if ((await checkBackendHealth(candidate)).ok) {
+      if (candidate !== current) {
+        setApiBaseUrl(candidate);
+      }
+      reportConnectivity(true);
+      return true;
+    }
+  }
+  return false;
+};
+
+export const DEFAULT_NETWORK = 'main';
+
+// Network sent with every request; kept in sync with the network slice by a store listener
+let activeNetwork = DEFAULT_NETWORK;
+
+export const setApiNetwork = (network: string) => {
+  activeNetwork = network;
+};
+
+export const getApiNetwork = () => activeNetwork;
+
+export type AdjustMethod = 'ADD' | 'SUBTRACT' | 'SET';
+
+/**
+ * Operations a KeetaNet block can carry. Amounts are base-unit integers as strings.
+ */
+export type KeetaOperation =
+  | { type: 'SEND'; to: string; amount: string; token: string; external?: string }
+  | { type: 'RECEIVE'; from: string; amount: string; token: string; exact?: boolean; forward?: string }
+  | { type: 'SET_REP'; to: string }
+  | { type: 'SET_INFO'; name: string; description?: string; metadata?: string; defaultPermission?: string[] }
+  | { type: 'MODIFY_PERMISSIONS'; principal: string; method: AdjustMethod; permissions: string[]; target?: string }
+  | { type: 'CREATE_IDENTIFIER'; identifier: string }
+  | { type: 'TOKEN_ADMIN_SUPPLY'; amount: string; method: Exclude<AdjustMethod, 'SET'> }
+  | { type: 'TOKEN_ADMIN_MODIFY_BALANCE'; token: string; amount: string; method: AdjustMethod };
+
+export type KeetaOperationType = KeetaOperation['type'];
+
+/**
+ * A signed KeetaNet block as returned by the node
+ */
+export interface KeetaBlock {
+  hash: string;
+  version: number;
+  date: string;
+  network: string;
+  account: string;
+  signer: string;
+  // Hash of the account's previous block; the account's opening hash for its first block
+  previous: string;
+  representative?: string | null;
+  operations: KeetaOperation[];
+  signature: string;
+}
+
+/**
+ * Outcome of publishing a vote staple to the network
+ */
+export interface PublishResult {
+  publish: boolean;
+  from?: string;
+  timestamp?: string;
 }
 
 export interface AccountBalanceResponse {
@@ -48,7 +256,8 @@ export interface AccountBalanceResponse {
       address: string;
       balance: string;
     }>;
-    totalBalance: number;
+    // Large balances arrive as strings to keep their precision
+    totalBalance: string | number;
   };
   message: string;
 }
@@ -66,7 +275,7 @@ export interface AccountInfoResponse {
 }
 
 export interface GenerateTokenPayload {
-  seed: string;
+  account: string;
   name: string;
   symbol: string;
   initialSupply: string;
@@ -75,107 +284,209 @@ export interface GenerateTokenPayload {
   network?: string;
 }
 
+export interface PrepareTokenResponse {
+  success: boolean;
+  data: {
+    tokenAddress: string;
+    blocks: UnsignedBlock[];
+  };
+  code?: string;
+  message: string;
+}
+
 export interface GenerateTokenResponse {
   success: boolean;
   data: {
     tokenAddress: string;
     initialSupply: string;
-    blocks: any[];
-    publish: any;
+    blocks: KeetaBlock[];
+    publish: PublishResult;
   };
   code?: string;
   message: string;
 }
 
 export interface TransferPayload {
-  seed: string;
+  account: string;
   recipient: string;
   amount: string;
   tokenAddress?: string;
   network?: string;
 }
 
+export interface PrepareTransferResponse {
+  success: boolean;
+  data: {
+    blocks: UnsignedBlock[];
+  };
+  code?: string;
+  message: string;
+}
+
 export interface TransferResponse {
   success: boolean;
   data: {
     recipient: string;
     amount: string;
     tokenAddress: string | null;
-    blocks: any[];
-    publish: any;
+    blocks: KeetaBlock[];
+    publish: PublishResult;
   };
   code?: string;
   message: string;
 }
 
+export type HistoryEntryType = 'send' | 'receive' | 'token_creation';
+
+/**
+ * One line of account activity, flattened from the block that produced it
+ */
+export interface HistoryEntry {
+  blockHash: string;
+  type: HistoryEntryType;
+  counterparty: string | null;
+  tokenAddress: string | null;
+  amount: string;
+  timestamp: string;
+}
+
+export interface AccountHistoryResponse {
+  success: boolean;
+  data: {
+    address: string;
+    entries: HistoryEntry[];
+    nextCursor: string | null;
+  };
+  message: string;
+}
+
+export interface TransactionResponse {
+  success: boolean;
+  data: {
+    hash: string;
+    blocks: KeetaBlock[];
+    publish: PublishResult | null;
+  };
+  message: string;
+}
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'not_found';
+
+export interface TransactionStatusResponse {
+  success: boolean;
+  data: {
+    hash: string;
+    status: TransactionStatus;
+    confirmedAt?: string;
+    reason?: string;
+  };
+  message: string;
+}
+
 export const walletApi = {
   /**
-   * Create a new wallet using KeetaNet SDK
+   * Get account balance and tokens
    */
-  createWallet: async (): Promise<CreateWalletResponse> => {
-    const response = await api.post<CreateWalletResponse>('/wallet/create');
+  getAccountBalance: async (address: string): Promise<AccountBalanceResponse> => {
+    const response = await api.get<AccountBalanceResponse>(`/wallet/balance/${address}`, {
+      params: { network: activeNetwork },
+    });
     return response.data;
   },
 
   /**
-   * Import wallet from seed (KeetaNet primary method)
+   * Get account info
    */
-  importWalletFromSeed: async (seed: string): Promise<ImportWalletResponse> => {
-    const response = await api.post<ImportWalletResponse>('/wallet/import/seed', {
-      seed,
+  getAccountInfo: async (address: string): Promise<AccountInfoResponse> => {
+    const response = await api.get<AccountInfoResponse>(`/wallet/info/${address}`, {
+      params: { network: activeNetwork },
     });
     return response.data;
   },
 
   /**
-   * Import wallet from mnemonic (for backward compatibility)
+   * Get account activity, newest first. Pass the previous page's cursor to continue.
    */
-  importWalletFromMnemonic: async (mnemonic: string): Promise<ImportWalletResponse> => {
-    const response = await api.post<ImportWalletResponse>('/wallet/import/mnemonic', {
-      mnemonic,
+  getAccountHistory: async (
+    address: string,
+    params: { cursor?: string | null; limit?: number } = {}
+  ): Promise<AccountHistoryResponse> => {
+    const response = await api.get<AccountHistoryResponse>(`/wallet/history/${address}`, {
+      params: { cursor: params.cursor || undefined, limit: params.limit, network: activeNetwork },
     });
     return response.data;
   },
 
   /**
-   * Import wallet from private key
+   * Get the blocks published together with a block hash
    */
-  importWalletFromPrivateKey: async (privateKey: string): Promise<ImportWalletResponse> => {
-    const response = await api.post<ImportWalletResponse>('/wallet/import/private-key', {
-      privateKey,
+  getTransaction: async (hash: string, network: string = activeNetwork): Promise<TransactionResponse> => {
+    const response = await api.get<TransactionResponse>(`/wallet/transaction/${hash}`, {
+      params: { network },
     });
     return response.data;
   },
 
   /**
-   * Get account balance and tokens
+   * Check whether a published block has been confirmed by the network it was sent to
    */
-  getAccountBalance: async (address: string): Promise<AccountBalanceResponse> => {
-    const response = await api.get<AccountBalanceResponse>(`/wallet/balance/${address}`);
+  getTransactionStatus: async (hash: string, network: string = activeNetwork): Promise<TransactionStatusResponse> => {
+    const response = await api.get<TransactionStatusResponse>(`/wallet/transaction/${hash}/status`, {
+      params: { network },
+    });
     return response.data;
   },
 
   /**
-   * Get account info
+   * Build the unsigned blocks that create a token on KeetaNet
    */
-  getAccountInfo: async (address: string): Promise<AccountInfoResponse> => {
-    const response = await api.get<AccountInfoResponse>(`/wallet/info/${address}`);
+  prepareTokenCreation: async (payload: GenerateTokenPayload): Promise<PrepareTokenResponse> => {
+    // Preparing only builds unsigned blocks, so it can be retried safely
+    const response = await api.post<PrepareTokenResponse>(
+      '/wallet/token/prepare',
+      { ...payload, network: payload.network || activeNetwork },
+      { idempotent: true }
+    );
+    return response.data;
+  },
+
+  /**
+   * Publish token creation blocks signed on this device
+   */
+  publishTokenCreation: async (payload: {
+    tokenAddress: string;
+    blocks: SignedBlock[];
+    network?: string;
+  }): Promise<GenerateTokenResponse> => {
+    const response = await api.post<GenerateTokenResponse>(
+      '/wallet/token/publish',
+      { ...payload, network: payload.network || activeNetwork },
+      { timeout: PUBLISH_TIMEOUT_MS }
+    );
     return response.data;
   },
 
   /**
-   * Create a token on KeetaNet
+   * Build the unsigned blocks for a transfer
    */
-  createToken: async (payload: GenerateTokenPayload): Promise<GenerateTokenResponse> => {
-    const response = await api.post<GenerateTokenResponse>('/wallet/token/create', payload);
+  prepareTransfer: async (payload: TransferPayload): Promise<PrepareTransferResponse> => {
+    const response = await api.post<PrepareTransferResponse>(
+      '/wallet/transfer/prepare',
+      { ...payload, network: payload.network || activeNetwork },
+      { idempotent: true }
+    );
     return response.data;
   },
 
   /**
-   * Transfer tokens using the backend relay
+   * Publish transfer blocks signed on this device
    */
-  transferTokens: async (payload: TransferPayload): Promise<TransferResponse> => {
-    const response = await api.post<TransferResponse>('/wallet/transfer', payload);
+  publishTransfer: async (payload: { blocks: SignedBlock[]; network?: string }): Promise<TransferResponse> => {
+    const response = await api.post<TransferResponse>(
+      '/wallet/transfer/publish',
+      { ...payload, network: payload.network || activeNetwork },
+      { timeout: PUBLISH_TIMEOUT_MS }
+    );
     return response.data;
   },
 };
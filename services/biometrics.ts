@@ -0,0 +1,94 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+
+const BIOMETRIC_UNLOCK_KEY = 'wallet_biometric_unlock_key';
+
+/**
+ * Everything the app needs from the platform's biometrics. Swap the
+ * implementation with setBiometricAuthenticator to run without a device.
+ */
+export interface BiometricAuthenticator {
+  isAvailable(): Promise<boolean>;
+  getLabel(): Promise<string>;
+  authenticate(prompt: string): Promise<boolean>;
+  // Stores the value so it can only be read back after a biometric check
+  storeUnlockKey(value: string): Promise<void>;
+  // Resolves null when the user cancels or the entry was invalidated
+  readUnlockKey(prompt: string): Promise<string | null>;
+  clearUnlockKey(): Promise<void>;
+}
+
+export const expoBiometricAuthenticator: BiometricAuthenticator = {
+  async isAvailable() {
+    try {
+      const [hasHardware, isEnrolled] = await Promise.all([
+        LocalAuthentication.hasHardwareAsync(),
+        LocalAuthentication.isEnrolledAsync(),
+      ]);
+      return hasHardware && isEnrolled && SecureStore.canUseBiometricAuthentication();
+    } catch (error) {
+      console.error('Error checking biometric support:', error);
+      return false;
+    }
+  },
+
+  async getLabel() {
+    try {
+      const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+      if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) {
+        return 'Face ID';
+      }
+      if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) {
+        return 'Fingerprint';
+      }
+    } catch (error) {
+      console.error('Error loading biometric types:', error);
+    }
+    return 'Biometrics';
+  },
+
+  async authenticate(prompt) {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage: prompt,
+      cancelLabel: 'Use Password',
+      disableDeviceFallback: true,
+    });
+    return result.success;
+  },
+
+  async storeUnlockKey(value) {
+    await SecureStore.setItemAsync(BIOMETRIC_UNLOCK_KEY, value, {
+      requireAuthentication: true,
+      keychainAccessible: SecureStore.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+    });
+  },
+
+  async readUnlockKey(prompt) {
+    try {
+      return await SecureStore.getItemAsync(BIOMETRIC_UNLOCK_KEY, {
+        requireAuthentication: true,
+        authenticationPrompt: prompt,
+        keychainAccessible: SecureStore.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+      });
+    } catch (error) {
+      console.error('Error reading biometric unlock key:', error);
+      return null;
+    }
+  },
+
+  async clearUnlockKey() {
+    try {
+      await SecureStore.deleteItemAsync(BIOMETRIC_UNLOCK_KEY);
+    } catch (error) {
+      console.error('Error clearing biometric unlock key:', error);
+    }
+  },
+};
+
+let authenticator: BiometricAuthenticator = expoBiometricAuthenticator;
+
+export const getBiometricAuthenticator = (): BiometricAuthenticator => authenticator;
+
+export const setBiometricAuthenticator = (next: BiometricAuthenticator): void => {
+  authenticator = next;
+};
@@ -0,0 +1,195 @@
+import { hexToBytes } from '@noble/hashes/utils';
+
+import type { KeetaOperationType } from './api';
+import { encodeAddress, KeyAlgorithm } from './keyring';
+
+// ASN.1 universal tags used by KeetaNet blocks
+const TAG_INTEGER = 0x02;
+const TAG_OCTET_STRING = 0x04;
+const TAG_SEQUENCE = 0x10;
+const CLASS_CONTEXT = 2;
+
+// Context tag of each operation inside a block
+const OPERATION_TAGS: Record<number, KeetaOperationType> = {
+  0: 'SEND',
+  1: 'SET_REP',
+  2: 'SET_INFO',
+  3: 'MODIFY_PERMISSIONS',
+  4: 'CREATE_IDENTIFIER',
+  5: 'TOKEN_ADMIN_SUPPLY',
+  6: 'TOKEN_ADMIN_MODIFY_BALANCE',
+  7: 'RECEIVE',
+};
+
+// Accounts are stored as the key type byte followed by the key, like an address without its checksum
+const KEY_BYTES: Partial<Record<number, number>> = {
+  [KeyAlgorithm.ECDSA_SECP256K1]: 33,
+  [KeyAlgorithm.ED25519]: 32,
+  [KeyAlgorithm.NETWORK]: 32,
+  [KeyAlgorithm.TOKEN]: 32,
+  [KeyAlgorithm.STORAGE]: 32,
+  [KeyAlgorithm.ECDSA_SECP256R1]: 33,
+};
+
+interface DerNode {
+  tagClass: number;
+  constructed: boolean;
+  tag: number;
+  value: Uint8Array;
+  children: DerNode[];
+}
+
+export type DecodedOperation =
+  | { type: 'SEND'; to: string; amount: bigint; token: string }
+  | { type: Exclude<KeetaOperationType, 'SEND'> | 'UNKNOWN' };
+
+/**
+ * What a block does, read from its bytes rather than from anything the backend says about it
+ */
+export interface DecodedBlock {
+  // Signer and account fields, as addresses
+  accounts: string[];
+  operations: DecodedOperation[];
+}
+
+const readNode = (bytes: Uint8Array, start: number): { node: DerNode; end: number } => {
+  let offset = start;
+  if (offset + 2 > bytes.length) {
+    throw new Error('Block is truncated');
+  }
+  const first = bytes[offset++];
+  let tag = first & 0x1f;
+  if (tag === 0x1f) {
+    tag = 0;
+    let next: number;
+    do {
+      if (offset >= bytes.length) throw new Error('Block is truncated');
+      next = bytes[offset++];
+      tag = (tag << 7) | (next & 0x7f);
+    } while (next & 0x80);
+  }
+
+  let length = bytes[offset++];
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error('Block uses an unsupported length encoding');
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      if (offset >= bytes.length) throw new Error('Block is truncated');
+      length = length * 256 + bytes[offset++];
+    }
+  }
+  const end = offset + length;
+  if (end > bytes.length) {
+    throw new Error('Block is truncated');
+  }
+
+  const node: DerNode = {
+    tagClass: first >> 6,
+    constructed: Boolean(first & 0x20),
+    tag,
+    value: bytes.subarray(offset, end),
+    children: [],
+  };
+  if (node.constructed) {
+    let childOffset = offset;
+    while (childOffset < end) {
+      const child = readNode(bytes, childOffset);
+      node.children.push(child.node);
+      childOffset = child.end;
+    }
+  }
+  return { node, end };
+};
+
+const isUniversal = (node: DerNode, tag: number) => node.tagClass === 0 && node.tag === tag;
+
+const readInteger = (node: DerNode): bigint => {
+  if (!isUniversal(node, TAG_INTEGER) || node.value.length === 0) {
+    throw new Error('Expected an amount');
+  }
+  let value = BigInt(0);
+  node.value.forEach((byte) => {
+    value = (value << BigInt(8)) | BigInt(byte);
+  });
+  // Two's complement; amounts are never negative
+  if (node.value[0] & 0x80) {
+    throw new Error('Block contains a negative amount');
+  }
+  return value;
+};
+
+const readAccount = (node: DerNode): string | null => {
+  if (!isUniversal(node, TAG_OCTET_STRING) || node.value.length === 0) {
+    return null;
+  }
+  const keyBytes = KEY_BYTES[node.value[0]];
+  if (keyBytes === undefined || node.value.length !== 1 + keyBytes) {
+    return null;
+  }
+  return encodeAddress(node.value.subarray(1), node.value[0]);
+};
+
+const requireAccount = (node: DerNode | undefined): string => {
+  const account = node ? readAccount(node) : null;
+  if (!account) {
+    throw new Error('Expected an account');
+  }
+  return account;
+};
+
+// Explicitly tagged fields wrap a single SEQUENCE; implicitly tagged ones hold the fields directly
+const operationFields = (node: DerNode) =>
+  node.children.length === 1 && isUniversal(node.children[0], TAG_SEQUENCE) ? node.children[0].children : node.children;
+
+const decodeOperation = (node: DerNode): DecodedOperation => {
+  const type = OPERATION_TAGS[node.tag];
+  if (!type) {
+    return { type: 'UNKNOWN' };
+  }
+  if (type !== 'SEND') {
+    return { type };
+  }
+  const [to, amount, token] = operationFields(node);
+  return { type, to: requireAccount(to), amount: readInteger(amount), token: requireAccount(token) };
+};
+
+const isOperationList = (node: DerNode) =>
+  isUniversal(node, TAG_SEQUENCE) &&
+  node.children.length > 0 &&
+  node.children.every((child) => child.tagClass === CLASS_CONTEXT && child.constructed);
+
+const collectAccounts = (node: DerNode, accounts: string[]) => {
+  const account = readAccount(node);
+  if (account) {
+    accounts.push(account);
+  }
+  node.children.forEach((child) => collectAccounts(child, accounts));
+};
+
+/**
+ * Decode an unsigned block (hex DER). Throws if it can't be read, so callers fail closed.
+ */
+export const decodeBlock = (blockHex: string): DecodedBlock => {
+  const bytes = hexToBytes(blockHex.trim().toLowerCase());
+  const { node: root, end } = readNode(bytes, 0);
+  if (end !== bytes.length) {
+    throw new Error('Block has trailing data');
+  }
+
+  // Newer blocks wrap the fields in a version tag
+  const body = root.tagClass === CLASS_CONTEXT && root.children.length === 1 ? root.children[0] : root;
+  const operationLists = body.children.filter(isOperationList);
+  if (!isUniversal(body, TAG_SEQUENCE) || operationLists.length !== 1) {
+    throw new Error('Block has no operations');
+  }
+
+  const accounts: string[] = [];
+  body.children.filter((child) => child !== operationLists[0]).forEach((child) => collectAccounts(child, accounts));
+  if (accounts.length === 0) {
+    throw new Error('Block has no signer');
+  }
+  return { accounts, operations: operationLists[0].children.map(decodeOperation) };
+};
@@ -0,0 +1,27 @@
+import { Clipboard } from 'react-native';
+
+export const SENSITIVE_CLIPBOARD_TIMEOUT_MS = 60 * 1000;
+
+let clearTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Copy a secret and wipe it from the clipboard after a delay, unless the user
+ * has copied something else in the meantime.
+ */
+export const copySensitive = (value: string, clearAfterMs = SENSITIVE_CLIPBOARD_TIMEOUT_MS): void => {
+  Clipboard.setString(value);
+
+  if (clearTimer) {
+    clearTimeout(clearTimer);
+  }
+  clearTimer = setTimeout(async () => {
+    clearTimer = null;
+    try {
+      if ((await Clipboard.getString()) === value) {
+        Clipboard.setString('');
+      }
+    } catch (error) {
+      console.error('Error clearing clipboard:', error);
+    }
+  }, clearAfterMs);
+};
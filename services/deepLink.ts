@@ -0,0 +1,86 @@
+import { parseAddressOfKind } from './address';
+import {
+  isPaymentRequestUri,
+  parsePaymentRequest,
+  PAYMENT_URI_SCHEME,
+  PaymentRequest,
+  readQueryParams,
+} from './paymentRequest';
+
+// Must match `scheme` in app.json
+export const APP_SCHEME = 'alpacawallet';
+
+const BLOCK_HASH_REGEX = /^[0-9a-f]{64}$/i;
+const MAX_ACCOUNT_NAME_LENGTH = 32;
+
+/**
+ * Links the app responds to:
+ * - `alpacawallet://pay?to=<address>&amount=&token=&memo=&expires=&network=`, or a bare `keeta:` payment request
+ * - `alpacawallet://import-watch-only?address=<address>&name=<label>`
+ * - `alpacawallet://open-transaction/<hash>` (or `?hash=<hash>`)
+ */
+export type DeepLink =
+  | { type: 'pay'; request: PaymentRequest }
+  | { type: 'import-watch-only'; address: string; name: string | null }
+  | { type: 'open-transaction'; hash: string };
+
+const ACTIONS: DeepLink['type'][] = ['pay', 'import-watch-only', 'open-transaction'];
+
+const splitAppLink = (url: string) => {
+  const rest = url.trim().slice(APP_SCHEME.length + 1).replace(/^\/+/, '');
+  const queryStart = rest.indexOf('?');
+  const path = (queryStart === -1 ? rest : rest.slice(0, queryStart)).split('/').filter(Boolean);
+  const query = queryStart === -1 ? '' : rest.slice(queryStart + 1);
+  return { action: path[0]?.toLowerCase() || '', segments: path.slice(1), query };
+};
+
+/**
+ * Whether a URL is one of ours, as opposed to e.g. a development client link
+ */
+export const isAppDeepLink = (url: string) => {
+  if (isPaymentRequestUri(url)) {
+    return true;
+  }
+  if (!url.trim().toLowerCase().startsWith(`${APP_SCHEME}:`)) {
+    return false;
+  }
+  return (ACTIONS as string[]).includes(splitAppLink(url).action);
+};
+
+/**
+ * Parse and validate an incoming link. Throws with a message fit to show the user.
+ */
+export const parseDeepLink = (url: string, now = Date.now()): DeepLink => {
+  if (isPaymentRequestUri(url)) {
+    return { type: 'pay', request: parsePaymentRequest(url, now) };
+  }
+  if (!isAppDeepLink(url)) {
+    throw new Error('This link is not one Alpaca Wallet can open');
+  }
+
+  const { action, segments, query } = splitAppLink(url);
+  const params = readQueryParams(query);
+
+  switch (action) {
+    case 'pay': {
+      if (!params.to) {
+        throw new Error('This payment link has no recipient');
+      }
+      return { type: 'pay', request: parsePaymentRequest(`${PAYMENT_URI_SCHEME}:${params.to}?${query}`, now) };
+    }
+    case 'import-watch-only': {
+      if (!params.address) {
+        throw new Error('This link has no address to watch');
+      }
+      const name = params.name?.trim().slice(0, MAX_ACCOUNT_NAME_LENGTH) || null;
+      return { type: 'import-watch-only', address: parseAddressOfKind(params.address, 'account').address, name };
+    }
+    default: {
+      const hash = segments[0] || params.hash || '';
+      if (!BLOCK_HASH_REGEX.test(hash)) {
+        throw new Error('This link does not contain a valid transaction hash');
+      }
+      return { type: 'open-transaction', hash: hash.toLowerCase() };
+    }
+  }
+};
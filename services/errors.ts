@@ -0,0 +1,86 @@
+import { isAxiosError } from 'axios';
+
+// HTTP statuses worth retrying: the request may succeed a moment later
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 502, 503, 504]);
+
+/**
+ * Friendly text for error codes, shared by every screen. Codes come from the
+ * backend (`code` in the response body) or from the transport layer below.
+ */
+export const FRIENDLY_ERROR_TEXT: Record<string, string> = {
+  NETWORK_ERROR: "Can't reach the wallet backend. Check your connection or the backend settings.",
+  TIMEOUT: 'The wallet backend took too long to respond. Please try again.',
+  RATE_LIMITED: 'Too many requests right now. Wait a moment and try again.',
+  SERVER_ERROR: 'The wallet backend ran into a problem. Please try again shortly.',
+  NETWORK_TIMEOUT: 'KeetaNet representatives did not respond in time. Please retry in a moment.',
+  INSUFFICIENT_FUNDS: 'Not enough base token balance to cover this transaction and its fee.',
+  TOKEN_NAME_INVALID: 'Token names must use uppercase letters or underscores (max 50 characters).',
+  TOKEN_SYMBOL_INVALID: 'Token symbols must use uppercase letters, digits, or underscores (max 16 characters).',
+  TOKEN_CREATE_ERROR: 'We could not create this token. Double-check your inputs and try again.',
+};
+
+/**
+ * Every failed backend call surfaces as one of these, whatever went wrong underneath
+ */
+export class ApiError extends Error {
+  code: string;
+  status: number | null;
+  retryable: boolean;
+
+  constructor(message: string, options: { code: string; status?: number | null; retryable?: boolean }) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = options.code;
+    this.status = options.status ?? null;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+const codeForStatus = (status: number) => {
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 408 || status === 504) return 'TIMEOUT';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'BAD_REQUEST';
+};
+
+/**
+ * Map anything thrown by axios (or elsewhere) to an ApiError
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (isAxiosError(error)) {
+    if (error.response) {
+      const { status, data } = error.response;
+      return new ApiError(data?.message || error.message, {
+        code: data?.code || codeForStatus(status),
+        status,
+        retryable: RETRYABLE_STATUSES.has(status),
+      });
+    }
+    const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+    return new ApiError(error.message, { code: timedOut ? 'TIMEOUT' : 'NETWORK_ERROR', retryable: true });
+  }
+
+  return new ApiError(error instanceof Error ? error.message : String(error), { code: 'UNKNOWN' });
+};
+
+/**
+ * Error for a response the backend answered with `success: false`
+ */
+export const failedResponseError = (response: { message?: string; code?: string }, fallback: string) =>
+  new ApiError(response.message || fallback, { code: response.code || 'REQUEST_FAILED' });
+
+/**
+ * Text to show the user: the catalogue entry for the error's code, else its message, else the fallback
+ */
+export const describeError = (error: unknown, fallback: string): string => {
+  if (!error) {
+    return fallback;
+  }
+  const apiError = toApiError(error);
+  return FRIENDLY_ERROR_TEXT[apiError.code] || apiError.message || fallback;
+};
@@ -0,0 +1,150 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha3_256 } from '@noble/hashes/sha3';
+import { bytesToHex, concatBytes, hexToBytes } from '@noble/hashes/utils';
+import { base32nopad } from '@scure/base';
+import { entropyToMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import * as Crypto from 'expo-crypto';
+
+// 24-word recovery phrases encode a 32-byte seed
+const SEED_BYTES = 32;
+export const ADDRESS_PREFIX = 'keeta_';
+export const ADDRESS_CHECKSUM_BYTES = 5;
+const HEX_REGEX = /^[0-9a-fA-F]+$/;
+
+/**
+ * Key type byte at the start of every address. Accounts are backed by a signing key;
+ * networks, tokens and storage accounts are identifiers generated by the node.
+ */
+export enum KeyAlgorithm {
+  ECDSA_SECP256K1 = 0,
+  ED25519 = 1,
+  NETWORK = 2,
+  TOKEN = 3,
+  STORAGE = 4,
+  ECDSA_SECP256R1 = 6,
+}
+
+export interface DerivedAccount {
+  address: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface UnsignedBlock {
+  hash: string;
+  block: string;
+}
+
+export interface SignedBlock extends UnsignedBlock {
+  signature: string;
+}
+
+const normalizeHex = (value: string, expectedBytes: number, label: string): Uint8Array => {
+  const trimmed = value.trim().replace(/^0x/i, '');
+  if (trimmed.length !== expectedBytes * 2 || !HEX_REGEX.test(trimmed)) {
+    throw new Error(`${label} must be ${expectedBytes * 2} hexadecimal characters`);
+  }
+  return hexToBytes(trimmed.toLowerCase());
+};
+
+const normalizeMnemonic = (mnemonic: string) => mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+
+/**
+ * Encode a public key as a KeetaNet account address
+ */
+export const encodeAddress = (publicKey: Uint8Array, algorithm = KeyAlgorithm.ECDSA_SECP256K1): string => {
+  const keyAndType = concatBytes(Uint8Array.of(algorithm), publicKey);
+  const checksum = sha3_256(keyAndType).slice(0, ADDRESS_CHECKSUM_BYTES);
+  return `${ADDRESS_PREFIX}${base32nopad.encode(concatBytes(keyAndType, checksum)).toLowerCase()}`;
+};
+
+/**
+ * Generate a new 24-word recovery phrase from device randomness
+ */
+export const generateMnemonic = (): string => {
+  return entropyToMnemonic(Crypto.getRandomBytes(SEED_BYTES), wordlist);
+};
+
+export const isValidMnemonic = (mnemonic: string): boolean => {
+  return validateMnemonic(normalizeMnemonic(mnemonic), wordlist);
+};
+
+/**
+ * Convert a recovery phrase to the hex seed KeetaNet derives accounts from
+ */
+export const seedFromMnemonic = (mnemonic: string): string => {
+  const normalized = normalizeMnemonic(mnemonic);
+  if (!validateMnemonic(normalized, wordlist)) {
+    throw new Error('Recovery phrase is invalid. Check each word and its order.');
+  }
+  return bytesToHex(mnemonicToEntropy(normalized, wordlist));
+};
+
+/**
+ * Derive the private key for an account index: SHA3-256(seed || uint32be(index))
+ */
+export const derivePrivateKey = (seed: string, index: number): string => {
+  if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+    throw new Error('Account index is out of range');
+  }
+  const indexBytes = new Uint8Array(4);
+  new DataView(indexBytes.buffer).setUint32(0, index, false);
+  return bytesToHex(sha3_256(concatBytes(normalizeHex(seed, SEED_BYTES, 'Seed'), indexBytes)));
+};
+
+/**
+ * Build the address and public key that belong to a private key
+ */
+export const accountFromPrivateKey = (privateKey: string): DerivedAccount => {
+  const keyBytes = normalizeHex(privateKey, 32, 'Private key');
+  if (!secp256k1.utils.isValidPrivateKey(keyBytes)) {
+    throw new Error('Private key is not a valid secp256k1 key');
+  }
+  const publicKey = secp256k1.getPublicKey(keyBytes, true);
+  return {
+    address: encodeAddress(publicKey),
+    publicKey: bytesToHex(publicKey),
+    privateKey: bytesToHex(keyBytes),
+  };
+};
+
+export const accountFromSeed = (seed: string, index: number): DerivedAccount => {
+  return accountFromPrivateKey(derivePrivateKey(seed, index));
+};
+
+export const accountFromMnemonic = (mnemonic: string, index: number): DerivedAccount => {
+  return accountFromSeed(seedFromMnemonic(mnemonic), index);
+};
+
+/**
+ * Resolve the key that signs for a stored account
+ */
+export const resolveSigningKey = (
+  secrets: { seed?: string; privateKey?: string },
+  index = 0
+): string | null => {
+  if (secrets.privateKey) {
+    return secrets.privateKey;
+  }
+  if (secrets.seed) {
+    return derivePrivateKey(secrets.seed, index);
+  }
+  return null;
+};
+
+/**
+ * Sign blocks prepared by the backend. This only checks that each hash covers its
+ * block bytes; what the blocks do is checked against the user's request in services/signer.ts.
+ */
+export const signBlocks = (blocks: UnsignedBlock[], privateKey: string): SignedBlock[] => {
+  const keyBytes = normalizeHex(privateKey, 32, 'Private key');
+  return blocks.map((item) => {
+    const expectedHash = bytesToHex(sha3_256(hexToBytes(item.block)));
+    if (expectedHash !== item.hash.toLowerCase()) {
+      throw new Error('Block hash does not match block contents. Refusing to sign.');
+    }
+    const signature = secp256k1.sign(hexToBytes(expectedHash), keyBytes, { lowS: true });
+    return { ...item, signature: signature.toCompactHex() };
+  });
+};
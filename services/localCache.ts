@@ -0,0 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Non-secret data only (history, metadata, settings). Secrets belong in walletStorage.
+const CACHE_PREFIX = 'alpaca_cache.';
+
+export const readCache = async <T>(key: string): Promise<T | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(`${CACHE_PREFIX}${key}`);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (error) {
+    console.error(`Error reading cache "${key}":`, error);
+    return null;
+  }
+};
+
+export const writeCache = async <T>(key: string, value: T): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(`${CACHE_PREFIX}${key}`, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error writing cache "${key}":`, error);
+  }
+};
+
+export const removeCache = async (key: string): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(`${CACHE_PREFIX}${key}`);
+  } catch (error) {
+    console.error(`Error removing cache "${key}":`, error);
+  }
+};
+
+/**
+ * Drop every cached entry, e.g. when the wallet is deleted
+ */
+export const clearCache = async (): Promise<void> => {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith(CACHE_PREFIX)));
+  } catch (error) {
+    console.error('Error clearing cache:', error);
+  }
+};
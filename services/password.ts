@@ -0,0 +1,108 @@
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+
+const SALT_BYTES = 16;
+const LEGACY_SHA256_REGEX = /^[0-9a-f]{64}$/i;
+
+// Raise these over time; stored verifiers with weaker params are upgraded on unlock
+const CURRENT_PARAMS = { N: 2 ** 14, r: 8, p: 1, dkLen: 32 };
+
+export interface PasswordVerifier {
+  version: 2;
+  algorithm: 'scrypt';
+  params: { N: number; r: number; p: number; dkLen: number };
+  salt: string;
+  hash: string;
+}
+
+export interface VerifyResult {
+  valid: boolean;
+  // True when the stored record should be replaced with a current-strength one
+  needsUpgrade: boolean;
+}
+
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+const parseVerifier = (stored: string): PasswordVerifier | null => {
+  try {
+    const parsed = JSON.parse(stored);
+    if (parsed?.version === 2 && parsed.algorithm === 'scrypt' && parsed.salt && parsed.hash) {
+      return parsed as PasswordVerifier;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+const isWeakerThanCurrent = (params: PasswordVerifier['params']) =>
+  params.N < CURRENT_PARAMS.N || params.r < CURRENT_PARAMS.r || params.p < CURRENT_PARAMS.p;
+
+/**
+ * Hash a password into a salted verifier record for storage
+ */
+export const createPasswordVerifier = async (password: string): Promise<string> => {
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  const hash = await scryptAsync(utf8ToBytes(password), salt, CURRENT_PARAMS);
+  const verifier: PasswordVerifier = {
+    version: 2,
+    algorithm: 'scrypt',
+    params: { ...CURRENT_PARAMS },
+    salt: bytesToHex(salt),
+    hash: bytesToHex(hash),
+  };
+  return JSON.stringify(verifier);
+};
+
+/**
+ * Check a password against a stored verifier. Accepts the unsalted SHA-256
+ * hashes written by earlier versions and flags them for upgrade.
+ */
+export const verifyPassword = async (stored: string, password: string): Promise<VerifyResult> => {
+  const verifier = parseVerifier(stored);
+  if (verifier) {
+    const candidate = await scryptAsync(utf8ToBytes(password), hexToBytes(verifier.salt), verifier.params);
+    const valid = constantTimeEqual(candidate, hexToBytes(verifier.hash));
+    return { valid, needsUpgrade: valid && isWeakerThanCurrent(verifier.params) };
+  }
+
+  if (LEGACY_SHA256_REGEX.test(stored)) {
+    const candidate = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, password);
+    const valid = constantTimeEqual(hexToBytes(candidate.toLowerCase()), hexToBytes(stored.toLowerCase()));
+    return { valid, needsUpgrade: valid };
+  }
+
+  return { valid: false, needsUpgrade: false };
+};
+
+export type PasswordStrength = 'low' | 'middle' | 'high';
+
+export const evaluatePasswordStrength = (password: string): PasswordStrength => {
+  if (!password) return 'low';
+
+  let score = 0;
+  if (password.length >= 8) score += 1;
+  if (password.length >= 12) score += 1;
+
+  const variety =
+    Number(/[a-z]/.test(password)) +
+    Number(/[A-Z]/.test(password)) +
+    Number(/\d/.test(password)) +
+    Number(/[^A-Za-z0-9]/.test(password));
+
+  if (variety >= 3) score += 1;
+
+  if (score >= 3) return 'high';
+  if (score >= 2) return 'middle';
+  return 'low';
+};
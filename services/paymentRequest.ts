@@ -0,0 +1,119 @@
+import { parseAddressOfKind } from './address';
+import { parseAmount } from './amount';
+
+// keeta:<recipient>?amount=<decimal>&token=<token address>&memo=<text>&expires=<unix seconds>&network=<name>
+export const PAYMENT_URI_SCHEME = 'keeta';
+export const MAX_MEMO_LENGTH = 140;
+
+const DECIMAL_AMOUNT_REGEX = /^\d+(\.\d+)?$/;
+
+/**
+ * A request to be paid. The amount is as a person would type it (decimal, in the
+ * token's display units), so it can go straight into the send form.
+ */
+export interface PaymentRequest {
+  recipient: string;
+  tokenAddress: string | null;
+  amount: string | null;
+  memo: string | null;
+  // Milliseconds since the epoch
+  expiresAt: number | null;
+  network: string | null;
+}
+
+export const isPaymentRequestUri = (text: string) =>
+  text.trim().toLowerCase().startsWith(`${PAYMENT_URI_SCHEME}:`);
+
+/**
+ * Decode a URI query string into lowercase keys. Shared with app deep links.
+ */
+export const readQueryParams = (query: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  query
+    .split('&')
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [rawKey, ...rest] = pair.split('=');
+      try {
+        params[decodeURIComponent(rawKey).toLowerCase()] = decodeURIComponent(rest.join('=').replace(/\+/g, ' '));
+      } catch {
+        throw new Error('This link is malformed');
+      }
+    });
+  return params;
+};
+
+/**
+ * Encode a payment request as a URI for QR codes, links and share text
+ */
+export const buildPaymentRequest = (request: Omit<PaymentRequest, 'network'> & { network?: string | null }): string => {
+  const params: [string, string][] = [];
+  if (request.amount) params.push(['amount', request.amount]);
+  if (request.tokenAddress) params.push(['token', request.tokenAddress]);
+  if (request.memo) params.push(['memo', request.memo.slice(0, MAX_MEMO_LENGTH)]);
+  if (request.expiresAt) params.push(['expires', String(Math.floor(request.expiresAt / 1000))]);
+  if (request.network) params.push(['network', request.network]);
+
+  const query = params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+  return `${PAYMENT_URI_SCHEME}:${request.recipient}${query ? `?${query}` : ''}`;
+};
+
+/**
+ * Decode and check a payment request URI. Throws with a message fit to show the
+ * payer, including when the request has expired.
+ */
+export const parsePaymentRequest = (uri: string, now = Date.now()): PaymentRequest => {
+  if (!isPaymentRequestUri(uri)) {
+    throw new Error(`Payment requests start with "${PAYMENT_URI_SCHEME}:"`);
+  }
+
+  const rest = uri.trim().slice(PAYMENT_URI_SCHEME.length + 1).replace(/^\/\//, '');
+  const queryStart = rest.indexOf('?');
+  const target = queryStart === -1 ? rest : rest.slice(0, queryStart);
+  const params = readQueryParams(queryStart === -1 ? '' : rest.slice(queryStart + 1));
+
+  const recipient = parseAddressOfKind(target, 'account').address;
+  const tokenAddress = params.token ? parseAddressOfKind(params.token, 'token').address : null;
+
+  let amount: string | null = null;
+  if (params.amount) {
+    if (!DECIMAL_AMOUNT_REGEX.test(params.amount) || !/[1-9]/.test(params.amount)) {
+      throw new Error('The requested amount is not a positive number');
+    }
+    amount = params.amount;
+  }
+
+  let expiresAt: number | null = null;
+  if (params.expires) {
+    const seconds = Number(params.expires);
+    if (!Number.isInteger(seconds) || seconds <= 0) {
+      throw new Error('This payment request has an invalid expiry');
+    }
+    expiresAt = seconds * 1000;
+    if (expiresAt <= now) {
+      throw new Error(`This payment request expired on ${new Date(expiresAt).toLocaleString()}`);
+    }
+  }
+
+  const memo = params.memo?.trim().slice(0, MAX_MEMO_LENGTH) || null;
+  return { recipient, tokenAddress, amount, memo, expiresAt, network: params.network?.trim() || null };
+};
+
+/**
+ * Check a parsed request against the wallet's network and the requested token's
+ * decimals, when they are known. Throws with a message fit to show the payer.
+ */
+export const checkPaymentRequest = (request: PaymentRequest, network: string, decimals?: number) => {
+  if (request.network && request.network !== network) {
+    throw new Error(
+      `This request is for the ${request.network} network, but the wallet is on ${network}. Switch networks and try again.`
+    );
+  }
+  if (request.amount && decimals !== undefined && parseAmount(request.amount, decimals) === null) {
+    throw new Error(
+      decimals > 0
+        ? `The requested amount has more than the ${decimals} decimal places this token allows`
+        : 'The requested amount must be a whole number for this token'
+    );
+  }
+};
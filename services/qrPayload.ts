@@ -0,0 +1,33 @@
+import { AddressError, parseAddressOfKind } from './address';
+import { isPaymentRequestUri, parsePaymentRequest, PaymentRequest } from './paymentRequest';
+
+/**
+ * Turn the text inside a QR code into a payment. Accepts a bare account address or a
+ * payment request URI; throws with a message fit for the scanner screen otherwise.
+ */
+export const parseQrPayload = (data: string, now = Date.now()): PaymentRequest => {
+  const text = data.trim();
+  if (!text) {
+    throw new Error('This code is empty');
+  }
+
+  if (isPaymentRequestUri(text)) {
+    return parsePaymentRequest(text, now);
+  }
+
+  try {
+    return {
+      recipient: parseAddressOfKind(text, 'account').address,
+      tokenAddress: null,
+      amount: null,
+      memo: null,
+      expiresAt: null,
+      network: null,
+    };
+  } catch (error) {
+    if (error instanceof AddressError && error.code === 'PREFIX') {
+      throw new Error("This code doesn't contain a KeetaNet address");
+    }
+    throw error;
+  }
+};
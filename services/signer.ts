@@ -0,0 +1,140 @@
+import { parseAddress, parseAddressOfKind } from './address';
+import {
+  GenerateTokenPayload,
+  GenerateTokenResponse,
+  KeetaOperationType,
+  TransferPayload,
+  TransferResponse,
+  walletApi,
+} from './api';
+import { decodeBlock, DecodedBlock } from './block';
+import { describeError, failedResponseError } from './errors';
+import { accountFromPrivateKey, SignedBlock, signBlocks, UnsignedBlock } from './keyring';
+
+// What token creation may do; anything else in the prepared blocks is refused
+const TOKEN_CREATION_OPERATIONS: KeetaOperationType[] = [
+  'CREATE_IDENTIFIER',
+  'SET_INFO',
+  'MODIFY_PERMISSIONS',
+  'TOKEN_ADMIN_SUPPLY',
+  'TOKEN_ADMIN_MODIFY_BALANCE',
+  'SEND',
+];
+
+const refuse = (reason: string): never => {
+  throw new Error(`${reason} Refusing to sign.`);
+};
+
+const decodePrepared = (blocks: UnsignedBlock[]): DecodedBlock[] => {
+  if (blocks.length === 0) {
+    refuse('The backend prepared nothing to sign.');
+  }
+  return blocks.map((item) => {
+    try {
+      return decodeBlock(item.block);
+    } catch (error) {
+      return refuse(`Could not read the prepared blocks (${describeError(error, 'unreadable block')}).`);
+    }
+  });
+};
+
+const signerAccount = (signingKey: string, account: string): string => {
+  const address = accountFromPrivateKey(signingKey).address;
+  if (address !== parseAddressOfKind(account, 'account').address) {
+    refuse('The signing key does not belong to this account.');
+  }
+  return address;
+};
+
+/**
+ * Check that the prepared blocks do exactly what the user confirmed: one send of
+ * the amount and token to the recipient, from and signed by this account.
+ * The base token's address is chosen by the node, so for base-token sends only its kind is checked.
+ */
+const verifyTransferBlocks = (decoded: DecodedBlock[], payload: TransferPayload, account: string) => {
+  const recipient = parseAddressOfKind(payload.recipient, 'account').address;
+  const token = payload.tokenAddress ? parseAddressOfKind(payload.tokenAddress, 'token').address : null;
+
+  if (decoded.some((block) => block.accounts.some((address) => address !== account))) {
+    refuse('The prepared transfer is not from this account.');
+  }
+  const operations = decoded.flatMap((block) => block.operations);
+  const [send] = operations;
+  if (operations.length !== 1 || send.type !== 'SEND') {
+    return refuse('The prepared transfer does more than the send you confirmed.');
+  }
+  if (send.to !== recipient) {
+    refuse('The prepared transfer goes to a different recipient.');
+  }
+  if (send.amount !== BigInt(payload.amount)) {
+    refuse('The prepared transfer is for a different amount.');
+  }
+  if (token ? send.token !== token : parseAddress(send.token).kind !== 'token') {
+    refuse('The prepared transfer sends a different token.');
+  }
+};
+
+/**
+ * Token creation is signed by this account and may only touch it and the new token.
+ * Any send must deliver to this account, so no funds can leave it.
+ */
+const verifyTokenCreationBlocks = (decoded: DecodedBlock[], account: string, tokenAddress: string) => {
+  const token = parseAddressOfKind(tokenAddress, 'token').address;
+  decoded.forEach((block) => {
+    if (!block.accounts.includes(account) || block.accounts.some((address) => address !== account && address !== token)) {
+      refuse('The prepared token creation is not signed by this account.');
+    }
+    block.operations.forEach((operation) => {
+      if (operation.type === 'UNKNOWN' || !TOKEN_CREATION_OPERATIONS.includes(operation.type)) {
+        refuse('The prepared token creation contains an unexpected operation.');
+      }
+      if (operation.type === 'SEND' && operation.to !== account) {
+        refuse('The prepared token creation sends funds away from this account.');
+      }
+    });
+  });
+};
+
+/**
+ * Prepare a transfer on the backend, check it, sign it on this device and publish it.
+ * Only the signed blocks are sent back; the signing key never leaves the device.
+ * `onSigned` runs before publishing, so callers can record the hash in case the publish outcome is lost.
+ */
+export const signAndTransfer = async (
+  signingKey: string,
+  payload: TransferPayload,
+  onSigned?: (blocks: SignedBlock[]) => Promise<void>
+): Promise<TransferResponse> => {
+  const account = signerAccount(signingKey, payload.account);
+  const prepared = await walletApi.prepareTransfer(payload);
+  if (!prepared.success || !prepared.data) {
+    throw failedResponseError(prepared, 'Failed to prepare transfer');
+  }
+
+  verifyTransferBlocks(decodePrepared(prepared.data.blocks), payload, account);
+  const blocks = signBlocks(prepared.data.blocks, signingKey);
+  await onSigned?.(blocks);
+  return walletApi.publishTransfer({ blocks, network: payload.network });
+};
+
+/**
+ * Prepare token creation on the backend, check it, sign it on this device and publish it
+ */
+export const signAndCreateToken = async (
+  signingKey: string,
+  payload: GenerateTokenPayload
+): Promise<GenerateTokenResponse> => {
+  const account = signerAccount(signingKey, payload.account);
+  const prepared = await walletApi.prepareTokenCreation(payload);
+  if (!prepared.success || !prepared.data) {
+    throw failedResponseError(prepared, 'Failed to prepare token creation');
+  }
+
+  verifyTokenCreationBlocks(decodePrepared(prepared.data.blocks), account, prepared.data.tokenAddress);
+  const blocks = signBlocks(prepared.data.blocks, signingKey);
+  return walletApi.publishTokenCreation({
+    tokenAddress: prepared.data.tokenAddress,
+    blocks,
+    network: payload.network,
+  });
+};
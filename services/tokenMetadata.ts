@@ -0,0 +1,123 @@
+import { base64 } from '@scure/base';
+import { bytesToUtf8 } from '@noble/hashes/utils';
+
+import { formatAddress } from './address';
+import { NATIVE_TOKEN_DECIMALS } from './amount';
+import { walletApi } from './api';
+import { failedResponseError } from './errors';
+import { readCache, writeCache } from './localCache';
+
+// The same address can be a different token on another network, so each network has its own cache
+const tokenMetadataCacheKey = (network: string) => `token_metadata_${network}`;
+// Token info rarely changes; refresh once a day
+const METADATA_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const NATIVE_TOKEN_SYMBOL = 'KTA';
+
+/**
+ * Display details for a token. Decimals are null when the token's metadata
+ * doesn't state them, so they are never guessed.
+ */
+export interface TokenMetadata {
+  address: string;
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+  icon: string | null;
+  updatedAt: number;
+}
+
+export type TokenMetadataMap = { [address: string]: TokenMetadata };
+
+// Token metadata is stored on-chain either as plain JSON or base64-encoded JSON
+const parseMetadataField = (metadata: unknown): Record<string, any> => {
+  if (!metadata) {
+    return {};
+  }
+  if (typeof metadata === 'object') {
+    return metadata as Record<string, any>;
+  }
+  if (typeof metadata !== 'string') {
+    return {};
+  }
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    try {
+      return JSON.parse(bytesToUtf8(base64.decode(metadata)));
+    } catch {
+      return {};
+    }
+  }
+};
+
+const toDecimals = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 0 && parsed <= 36 ? parsed : null;
+};
+
+export const isMetadataStale = (metadata: TokenMetadata | undefined): boolean =>
+  !metadata || Date.now() - metadata.updatedAt > METADATA_TTL_MS;
+
+export const loadCachedTokenMetadata = async (network: string): Promise<TokenMetadataMap> => {
+  return (await readCache<TokenMetadataMap>(tokenMetadataCacheKey(network))) || {};
+};
+
+export const saveTokenMetadata = async (network: string, entries: TokenMetadataMap): Promise<void> => {
+  await writeCache(tokenMetadataCacheKey(network), entries);
+};
+
+/**
+ * Look up a token's name, symbol, decimals and icon from its account info
+ */
+export const fetchTokenMetadata = async (address: string): Promise<TokenMetadata> => {
+  const response = await walletApi.getAccountInfo(address);
+  if (!response.success || !response.data) {
+    throw failedResponseError(response, 'Failed to load token info');
+  }
+
+  const info = response.data.info || {};
+  const metadata = parseMetadataField(info.metadata);
+  return {
+    address,
+    name: info.description || metadata.name || null,
+    symbol: metadata.symbol || info.name || null,
+    decimals: toDecimals(metadata.decimalPlaces ?? metadata.decimals),
+    icon: metadata.logoURI || metadata.icon || null,
+    updatedAt: Date.now(),
+  };
+};
+
+/**
+ * Short label for a token: its symbol when known, otherwise a shortened address
+ */
+export const tokenLabel = (address: string | null | undefined, registry: TokenMetadataMap): string => {
+  if (!address) {
+    return NATIVE_TOKEN_SYMBOL;
+  }
+  const symbol = registry[address]?.symbol;
+  if (symbol) {
+    return symbol;
+  }
+  return formatAddress(address);
+};
+
+/**
+ * Decimal places used to parse and display a token's amounts, or undefined while
+ * its metadata is unknown. Never guess: reading "1.5" with the wrong decimals sends the wrong amount.
+ */
+export const tokenDecimals = (
+  address: string | null | undefined,
+  registry: TokenMetadataMap
+): number | undefined => {
+  if (!address) {
+    return NATIVE_TOKEN_DECIMALS;
+  }
+  return registry[address]?.decimals ?? undefined;
+};
+
+/**
+ * Decimals for showing an amount. Tokens without metadata yet are shown in base units.
+ */
+export const displayDecimals = (address: string | null | undefined, registry: TokenMetadataMap): number =>
+  tokenDecimals(address, registry) ?? 0;
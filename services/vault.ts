@@ -0,0 +1,153 @@
+import { gcm } from '@noble/ciphers/aes';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+
+const KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+const SALT_BYTES = 16;
+const ENCRYPTED_PREFIX = 'enc1:';
+
+// Tuned so a derivation stays around a second on mid-range phones
+const DEFAULT_SCRYPT_PARAMS = { N: 2 ** 14, r: 8, p: 1 };
+
+export interface ScryptParams {
+  algorithm: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+/**
+ * Persisted vault header: the data key, wrapped with a key derived from the password
+ */
+export interface VaultRecord {
+  version: 1;
+  kdf: ScryptParams;
+  wrappedKey: string;
+}
+
+// Data key for the current unlocked session. Never persisted in plaintext.
+let sessionKey: Uint8Array | null = null;
+
+const seal = (key: Uint8Array, plaintext: Uint8Array): string => {
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const ciphertext = gcm(key, nonce).encrypt(plaintext);
+  return `${bytesToHex(nonce)}:${bytesToHex(ciphertext)}`;
+};
+
+const open = (key: Uint8Array, sealed: string): Uint8Array => {
+  const [nonceHex, ciphertextHex] = sealed.split(':');
+  if (!nonceHex || !ciphertextHex) {
+    throw new Error('Encrypted value is malformed');
+  }
+  return gcm(key, hexToBytes(nonceHex)).decrypt(hexToBytes(ciphertextHex));
+};
+
+const deriveWrappingKey = (password: string, kdf: ScryptParams): Promise<Uint8Array> => {
+  return scryptAsync(utf8ToBytes(password), hexToBytes(kdf.salt), {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    dkLen: KEY_BYTES,
+  });
+};
+
+const wrapKey = async (dataKey: Uint8Array, password: string): Promise<VaultRecord> => {
+  const kdf: ScryptParams = {
+    algorithm: 'scrypt',
+    ...DEFAULT_SCRYPT_PARAMS,
+    salt: bytesToHex(Crypto.getRandomBytes(SALT_BYTES)),
+  };
+  const wrappingKey = await deriveWrappingKey(password, kdf);
+  const wrappedKey = seal(wrappingKey, dataKey);
+  wrappingKey.fill(0);
+  return { version: 1, kdf, wrappedKey };
+};
+
+export const isVaultUnlocked = (): boolean => sessionKey !== null;
+
+/**
+ * Forget the data key so secrets can no longer be decrypted until the next unlock
+ */
+export const lockVault = (): void => {
+  sessionKey?.fill(0);
+  sessionKey = null;
+};
+
+/**
+ * Create a fresh data key protected by the password and keep it unlocked
+ */
+export const createVault = async (password: string): Promise<VaultRecord> => {
+  const dataKey = Crypto.getRandomBytes(KEY_BYTES);
+  const record = await wrapKey(dataKey, password);
+  lockVault();
+  sessionKey = dataKey;
+  return record;
+};
+
+/**
+ * Unwrap the data key with the password. Throws if the password is wrong.
+ */
+export const unlockVault = async (record: VaultRecord, password: string): Promise<void> => {
+  const wrappingKey = await deriveWrappingKey(password, record.kdf);
+  try {
+    const dataKey = open(wrappingKey, record.wrappedKey);
+    lockVault();
+    sessionKey = dataKey;
+  } catch {
+    throw new Error('Incorrect password. Please try again.');
+  } finally {
+    wrappingKey.fill(0);
+  }
+};
+
+/**
+ * Hex copy of the unlocked data key, for handing to biometric-protected storage
+ */
+export const exportSessionKey = (): string => {
+  if (!sessionKey) {
+    throw new Error('Wallet is locked. Unlock it to continue.');
+  }
+  return bytesToHex(sessionKey);
+};
+
+/**
+ * Unlock with a data key released by biometrics instead of the password
+ */
+export const unlockVaultWithKey = (keyHex: string): void => {
+  const dataKey = hexToBytes(keyHex);
+  if (dataKey.length !== KEY_BYTES) {
+    throw new Error('Stored unlock key is invalid');
+  }
+  lockVault();
+  sessionKey = dataKey;
+};
+
+/**
+ * Wrap the unlocked data key with a new password. Secrets stay encrypted under
+ * the same data key, so nothing else needs to be rewritten.
+ */
+export const rewrapVault = async (password: string): Promise<VaultRecord> => {
+  if (!sessionKey) {
+    throw new Error('Wallet is locked. Unlock it to continue.');
+  }
+  return wrapKey(sessionKey, password);
+};
+
+export const isEncryptedSecret = (value: string): boolean => value.startsWith(ENCRYPTED_PREFIX);
+
+export const encryptSecret = (plaintext: string): string => {
+  if (!sessionKey) {
+    throw new Error('Wallet is locked. Unlock it to continue.');
+  }
+  return `${ENCRYPTED_PREFIX}${seal(sessionKey, utf8ToBytes(plaintext))}`;
+};
+
+export const decryptSecret = (value: string): string => {
+  if (!sessionKey) {
+    throw new Error('Wallet is locked. Unlock it to continue.');
+  }
+  return bytesToUtf8(open(sessionKey, value.slice(ENCRYPTED_PREFIX.length)));
+};
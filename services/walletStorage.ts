@@ -1,14 +1,27 @@
+import * as Crypto from 'expo-crypto';
 import * as SecureStore from 'expo-secure-store';
 
+import { clearCache } from './localCache';
+import { decryptSecret, encryptSecret, isEncryptedSecret, isVaultUnlocked, VaultRecord } from './vault';
+
 const WALLET_KEY = 'wallet_data';
 const SEED_KEY = 'wallet_seed';
 const MNEMONIC_KEY = 'wallet_mnemonic';
 const PRIVATE_KEY_KEY = 'wallet_private_key';
 const ADDRESS_KEY = 'wallet_address';
 const PUBLIC_KEY_KEY = 'wallet_public_key';
+const ACCOUNTS_KEY = 'wallet_accounts';
+const ACTIVE_ACCOUNT_KEY = 'wallet_active_account_id';
+const VAULT_KEY = 'wallet_vault';
+const PENDING_PASSWORD_CHANGE_KEY = 'wallet_pending_password_change';
 const PASSWORD_HASH_KEY = 'wallet_password_hash';
 const AUTO_LOCK_MINUTES_KEY = 'wallet_auto_lock_minutes';
 const LAST_UNLOCKED_AT_KEY = 'wallet_last_unlocked_at';
+const FAILED_UNLOCK_KEY = 'wallet_failed_unlock';
+const WIPE_AFTER_FAILURES_KEY = 'wallet_wipe_after_failures';
+const BIOMETRIC_ENABLED_KEY = 'wallet_biometric_enabled';
+const NETWORK_KEY = 'wallet_network';
+const BACKEND_ENDPOINTS_KEY = 'wallet_backend_endpoints';
 
 export interface WalletData {
   address: string;
@@ -19,112 +32,286 @@ export interface WalletData {
 }
 
 /**
- * Save wallet data securely
+ * Public, non-secret description of a stored account
  */
-export const saveWallet = async (walletData: WalletData): Promise<void> => {
+export interface WalletAccount {
+  id: string;
+  name: string;
+  address: string;
+  publicKey?: string;
+  createdAt: number;
+  // Accounts derived from the same mnemonic share a keyring ID
+  keyringId?: string;
+  derivationIndex?: number;
+  // Added by address only; balances and history can be viewed but nothing can be signed
+  watchOnly?: boolean;
+}
+
+export interface AddAccountOptions {
+  name?: string;
+  keyringId?: string;
+  derivationIndex?: number;
+  watchOnly?: boolean;
+}
+
+/**
+ * Build the SecureStore key for a per-account secret
+ */
+const accountKey = (baseKey: string, accountId: string) => `${baseKey}_${accountId}`;
+
+const readAccountIndex = async (): Promise<WalletAccount[] | null> => {
+  const raw = await SecureStore.getItemAsync(ACCOUNTS_KEY);
+  if (!raw) {
+    return null;
+  }
   try {
-    if (walletData.address) {
-      await SecureStore.setItemAsync(ADDRESS_KEY, walletData.address);
-    }
-    if (walletData.seed) {
-      await SecureStore.setItemAsync(SEED_KEY, walletData.seed);
-    }
-    if (walletData.publicKey) {
-      await SecureStore.setItemAsync(PUBLIC_KEY_KEY, walletData.publicKey);
-    }
-    if (walletData.mnemonic) {
-      await SecureStore.setItemAsync(MNEMONIC_KEY, walletData.mnemonic);
-    }
-    if (walletData.privateKey) {
-      await SecureStore.setItemAsync(PRIVATE_KEY_KEY, walletData.privateKey);
-    }
-  } catch (error) {
-    console.error('Error saving wallet:', error);
-    throw new Error('Failed to save wallet data');
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
   }
 };
 
+const writeAccountIndex = async (accounts: WalletAccount[]): Promise<void> => {
+  await SecureStore.setItemAsync(ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+const SECRET_KEYS = [SEED_KEY, MNEMONIC_KEY, PRIVATE_KEY_KEY];
+
 /**
- * Get wallet address
+ * Encrypt a secret once the vault exists. Plaintext is only written before the
+ * first password is set, and is encrypted as soon as it is.
  */
-export const getWalletAddress = async (): Promise<string | null> => {
-  try {
-    return await SecureStore.getItemAsync(ADDRESS_KEY);
-  } catch (error) {
-    console.error('Error getting wallet address:', error);
-    return null;
+const encodeSecret = async (value: string): Promise<string> => {
+  const vault = await SecureStore.getItemAsync(VAULT_KEY);
+  return vault ? encryptSecret(value) : value;
+};
+
+/**
+ * Read a secret, leaving it out while the vault is locked
+ */
+const readSecret = async (key: string): Promise<string | undefined> => {
+  const value = await SecureStore.getItemAsync(key);
+  if (!value) {
+    return undefined;
+  }
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+  return isVaultUnlocked() ? decryptSecret(value) : undefined;
+};
+
+const writeAccountSecrets = async (accountId: string, walletData: WalletData): Promise<void> => {
+  if (walletData.seed) {
+    await SecureStore.setItemAsync(accountKey(SEED_KEY, accountId), await encodeSecret(walletData.seed));
+  }
+  if (walletData.mnemonic) {
+    await SecureStore.setItemAsync(accountKey(MNEMONIC_KEY, accountId), await encodeSecret(walletData.mnemonic));
+  }
+  if (walletData.privateKey) {
+    await SecureStore.setItemAsync(accountKey(PRIVATE_KEY_KEY, accountId), await encodeSecret(walletData.privateKey));
+  }
+};
+
+const deleteAccountSecrets = async (accountId: string): Promise<void> => {
+  await Promise.all(SECRET_KEYS.map((key) => SecureStore.deleteItemAsync(accountKey(key, accountId))));
+};
+
+/**
+ * Move a wallet saved by the single-account layout into the account index
+ */
+const migrateLegacyWallet = async (): Promise<WalletAccount[]> => {
+  const address = await SecureStore.getItemAsync(ADDRESS_KEY);
+  if (!address) {
+    return [];
   }
+
+  const [seed, publicKey, mnemonic, privateKey] = await Promise.all([
+    SecureStore.getItemAsync(SEED_KEY),
+    SecureStore.getItemAsync(PUBLIC_KEY_KEY),
+    SecureStore.getItemAsync(MNEMONIC_KEY),
+    SecureStore.getItemAsync(PRIVATE_KEY_KEY),
+  ]);
+
+  const id = Crypto.randomUUID();
+  const account: WalletAccount = {
+    id,
+    name: 'Account 1',
+    address,
+    publicKey: publicKey || undefined,
+    createdAt: Date.now(),
+    keyringId: mnemonic ? id : undefined,
+    derivationIndex: mnemonic ? 0 : undefined,
+  };
+
+  await writeAccountSecrets(account.id, {
+    address,
+    seed: seed || undefined,
+    mnemonic: mnemonic || undefined,
+    privateKey: privateKey || undefined,
+  });
+  await writeAccountIndex([account]);
+  await SecureStore.setItemAsync(ACTIVE_ACCOUNT_KEY, account.id);
+  await deleteLegacyWallet();
+
+  return [account];
+};
+
+const deleteLegacyWallet = async (): Promise<void> => {
+  await Promise.all([
+    SecureStore.deleteItemAsync(WALLET_KEY),
+    SecureStore.deleteItemAsync(ADDRESS_KEY),
+    SecureStore.deleteItemAsync(SEED_KEY),
+    SecureStore.deleteItemAsync(PUBLIC_KEY_KEY),
+    SecureStore.deleteItemAsync(MNEMONIC_KEY),
+    SecureStore.deleteItemAsync(PRIVATE_KEY_KEY),
+  ]);
 };
 
 /**
- * Get wallet seed
+ * Get all stored accounts, migrating a legacy single wallet on first access
  */
-export const getWalletSeed = async (): Promise<string | null> => {
+export const getAccounts = async (): Promise<WalletAccount[]> => {
   try {
-    return await SecureStore.getItemAsync(SEED_KEY);
+    const accounts = await readAccountIndex();
+    if (accounts) {
+      return accounts;
+    }
+    return await migrateLegacyWallet();
   } catch (error) {
-    console.error('Error getting wallet seed:', error);
-    return null;
+    console.error('Error getting wallet accounts:', error);
+    return [];
   }
 };
 
 /**
- * Get wallet public key
+ * Get the ID of the account currently shown in the wallet
  */
-export const getWalletPublicKey = async (): Promise<string | null> => {
+export const getActiveAccountId = async (): Promise<string | null> => {
   try {
-    return await SecureStore.getItemAsync(PUBLIC_KEY_KEY);
+    const accounts = await getAccounts();
+    const storedId = await SecureStore.getItemAsync(ACTIVE_ACCOUNT_KEY);
+    if (storedId && accounts.some((account) => account.id === storedId)) {
+      return storedId;
+    }
+    return accounts[0]?.id ?? null;
   } catch (error) {
-    console.error('Error getting wallet public key:', error);
+    console.error('Error getting active account:', error);
     return null;
   }
 };
 
+export const setActiveAccountId = async (accountId: string): Promise<void> => {
+  try {
+    await SecureStore.setItemAsync(ACTIVE_ACCOUNT_KEY, accountId);
+  } catch (error) {
+    console.error('Error saving active account:', error);
+    throw new Error('Failed to switch account');
+  }
+};
+
 /**
- * Get wallet mnemonic
+ * Save wallet data securely as a new account and make it the active one
  */
-export const getWalletMnemonic = async (): Promise<string | null> => {
+export const addWalletAccount = async (
+  walletData: WalletData,
+  options: AddAccountOptions = {}
+): Promise<WalletAccount> => {
+  const accounts = await getAccounts();
+  if (accounts.some((account) => account.address === walletData.address)) {
+    throw new Error('This account is already in your wallet');
+  }
+  if (!isVaultUnlocked() && (await SecureStore.getItemAsync(VAULT_KEY))) {
+    throw new Error('Unlock your wallet before adding accounts');
+  }
+
+  const id = Crypto.randomUUID();
+  const derived = options.derivationIndex !== undefined;
+  const account: WalletAccount = {
+    id,
+    name: options.name?.trim() || `Account ${accounts.length + 1}`,
+    address: walletData.address,
+    publicKey: walletData.publicKey,
+    createdAt: Date.now(),
+    keyringId: derived ? options.keyringId || id : undefined,
+    derivationIndex: options.derivationIndex,
+    watchOnly: options.watchOnly || undefined,
+  };
+
   try {
-    return await SecureStore.getItemAsync(MNEMONIC_KEY);
+    await writeAccountSecrets(account.id, walletData);
+    await writeAccountIndex([...accounts, account]);
+    await SecureStore.setItemAsync(ACTIVE_ACCOUNT_KEY, account.id);
+    return account;
   } catch (error) {
-    console.error('Error getting wallet mnemonic:', error);
-    return null;
+    console.error('Error saving wallet:', error);
+    await deleteAccountSecrets(account.id).catch(() => undefined);
+    throw new Error('Failed to save wallet data');
+  }
+};
+
+export const renameWalletAccount = async (accountId: string, name: string): Promise<WalletAccount[]> => {
+  try {
+    const accounts = await getAccounts();
+    const updated = accounts.map((account) =>
+      account.id === accountId ? { ...account, name: name.trim() || account.name } : account
+    );
+    await writeAccountIndex(updated);
+    return updated;
+  } catch (error) {
+    console.error('Error renaming account:', error);
+    throw new Error('Failed to rename account');
   }
 };
 
 /**
- * Get wallet private key
+ * Remove a single account and its secrets from the device
  */
-export const getWalletPrivateKey = async (): Promise<string | null> => {
+export const removeWalletAccount = async (accountId: string): Promise<WalletAccount[]> => {
   try {
-    return await SecureStore.getItemAsync(PRIVATE_KEY_KEY);
+    const accounts = await getAccounts();
+    const remaining = accounts.filter((account) => account.id !== accountId);
+    await writeAccountIndex(remaining);
+    await deleteAccountSecrets(accountId);
+
+    const activeId = await SecureStore.getItemAsync(ACTIVE_ACCOUNT_KEY);
+    if (activeId === accountId) {
+      if (remaining.length > 0) {
+        await SecureStore.setItemAsync(ACTIVE_ACCOUNT_KEY, remaining[0].id);
+      } else {
+        await SecureStore.deleteItemAsync(ACTIVE_ACCOUNT_KEY);
+      }
+    }
+    return remaining;
   } catch (error) {
-    console.error('Error getting wallet private key:', error);
-    return null;
+    console.error('Error removing account:', error);
+    throw new Error('Failed to remove account');
   }
 };
 
 /**
- * Get all wallet data
+ * Get the address, public key and secrets of a stored account
  */
-export const getWallet = async (): Promise<WalletData | null> => {
+export const getAccountWallet = async (accountId: string): Promise<WalletData | null> => {
   try {
-    const address = await getWalletAddress();
-    if (!address) {
+    const accounts = await getAccounts();
+    const account = accounts.find((item) => item.id === accountId);
+    if (!account) {
       return null;
     }
 
-    const seed = await getWalletSeed();
-    const publicKey = await getWalletPublicKey();
-    const mnemonic = await getWalletMnemonic();
-    const privateKey = await getWalletPrivateKey();
+    const [seed, mnemonic, privateKey] = await Promise.all([
+      readSecret(accountKey(SEED_KEY, accountId)),
+      readSecret(accountKey(MNEMONIC_KEY, accountId)),
+      readSecret(accountKey(PRIVATE_KEY_KEY, accountId)),
+    ]);
 
     return {
-      address,
-      seed: seed || undefined,
-      publicKey: publicKey || undefined,
-      mnemonic: mnemonic || undefined,
-      privateKey: privateKey || undefined,
+      address: account.address,
+      seed,
+      publicKey: account.publicKey,
+      mnemonic,
+      privateKey,
     };
   } catch (error) {
     console.error('Error getting wallet:', error);
@@ -132,41 +319,133 @@ export const getWallet = async (): Promise<WalletData | null> => {
   }
 };
 
+/**
+ * Get all wallet data of the active account
+ */
+export const getWallet = async (): Promise<WalletData | null> => {
+  const activeId = await getActiveAccountId();
+  if (!activeId) {
+    return null;
+  }
+  return getAccountWallet(activeId);
+};
+
 /**
  * Check if wallet exists
  */
 export const hasWallet = async (): Promise<boolean> => {
   try {
-    const address = await getWalletAddress();
-    return address !== null;
+    const accounts = await getAccounts();
+    return accounts.length > 0;
   } catch (error) {
     return false;
   }
 };
 
 /**
- * Delete wallet data
+ * Delete every account and all wallet data
  */
 export const deleteWallet = async (): Promise<void> => {
   try {
-    await SecureStore.deleteItemAsync(ADDRESS_KEY);
-    await SecureStore.deleteItemAsync(SEED_KEY);
-    await SecureStore.deleteItemAsync(PUBLIC_KEY_KEY);
-    await SecureStore.deleteItemAsync(MNEMONIC_KEY);
-    await SecureStore.deleteItemAsync(PRIVATE_KEY_KEY);
+    const accounts = await getAccounts();
+    for (const account of accounts) {
+      await deleteAccountSecrets(account.id);
+    }
+    await SecureStore.deleteItemAsync(ACCOUNTS_KEY);
+    await SecureStore.deleteItemAsync(ACTIVE_ACCOUNT_KEY);
+    await SecureStore.deleteItemAsync(VAULT_KEY);
+    await deleteLegacyWallet();
     await clearSecurityData();
+    await clearCache();
   } catch (error) {
     console.error('Error deleting wallet:', error);
     throw new Error('Failed to delete wallet data');
   }
 };
 
+export const getVaultRecord = async (): Promise<VaultRecord | null> => {
+  try {
+    const raw = await SecureStore.getItemAsync(VAULT_KEY);
+    return raw ? (JSON.parse(raw) as VaultRecord) : null;
+  } catch (error) {
+    console.error('Error loading wallet vault:', error);
+    return null;
+  }
+};
+
+export const saveVaultRecord = async (record: VaultRecord): Promise<void> => {
+  try {
+    await SecureStore.setItemAsync(VAULT_KEY, JSON.stringify(record));
+  } catch (error) {
+    console.error('Error saving wallet vault:', error);
+    throw new Error('Failed to save wallet encryption key');
+  }
+};
+
+/**
+ * Encrypt any secrets still stored in plaintext with the unlocked vault
+ */
+export const encryptStoredSecrets = async (): Promise<void> => {
+  const accounts = await getAccounts();
+  for (const account of accounts) {
+    for (const baseKey of SECRET_KEYS) {
+      const key = accountKey(baseKey, account.id);
+      const value = await SecureStore.getItemAsync(key);
+      if (value && !isEncryptedSecret(value)) {
+        await SecureStore.setItemAsync(key, encryptSecret(value));
+      }
+    }
+  }
+};
+
 /**
- * Save password hash (already hashed before calling)
+ * New password verifier and re-wrapped vault, written together when the password changes
  */
-export const setWalletPasswordHash = async (hash: string): Promise<void> => {
+export interface PasswordChange {
+  verifier: string;
+  vault: VaultRecord;
+}
+
+/**
+ * Replace the password verifier and vault record. The pair is journaled first so
+ * an interrupted write can be finished (or discarded) on the next unlock.
+ */
+export const applyPasswordChange = async (change: PasswordChange): Promise<void> => {
   try {
-    await SecureStore.setItemAsync(PASSWORD_HASH_KEY, hash);
+    await SecureStore.setItemAsync(PENDING_PASSWORD_CHANGE_KEY, JSON.stringify(change));
+    await SecureStore.setItemAsync(PASSWORD_HASH_KEY, change.verifier);
+    await SecureStore.setItemAsync(VAULT_KEY, JSON.stringify(change.vault));
+    await SecureStore.deleteItemAsync(PENDING_PASSWORD_CHANGE_KEY);
+  } catch (error) {
+    console.error('Error changing wallet password:', error);
+    throw new Error('Failed to change wallet password');
+  }
+};
+
+export const getPendingPasswordChange = async (): Promise<PasswordChange | null> => {
+  try {
+    const raw = await SecureStore.getItemAsync(PENDING_PASSWORD_CHANGE_KEY);
+    return raw ? (JSON.parse(raw) as PasswordChange) : null;
+  } catch (error) {
+    console.error('Error loading pending password change:', error);
+    return null;
+  }
+};
+
+export const clearPendingPasswordChange = async (): Promise<void> => {
+  try {
+    await SecureStore.deleteItemAsync(PENDING_PASSWORD_CHANGE_KEY);
+  } catch (error) {
+    console.error('Error clearing pending password change:', error);
+  }
+};
+
+/**
+ * Save the serialized password verifier record (see services/password)
+ */
+export const setWalletPasswordHash = async (verifier: string): Promise<void> => {
+  try {
+    await SecureStore.setItemAsync(PASSWORD_HASH_KEY, verifier);
   } catch (error) {
     console.error('Error saving wallet password:', error);
     throw new Error('Failed to save wallet password');
@@ -227,12 +506,150 @@ export const getLastUnlockedTimestamp = async (): Promise<number | null> => {
   }
 };
 
+export interface FailedUnlockState {
+  count: number;
+  lastFailedAt: number | null;
+}
+
+export const getFailedUnlockState = async (): Promise<FailedUnlockState> => {
+  try {
+    const raw = await SecureStore.getItemAsync(FAILED_UNLOCK_KEY);
+    return raw ? (JSON.parse(raw) as FailedUnlockState) : { count: 0, lastFailedAt: null };
+  } catch (error) {
+    console.error('Error loading failed unlock attempts:', error);
+    return { count: 0, lastFailedAt: null };
+  }
+};
+
+/**
+ * Count a failed unlock. Persisted so restarting the app does not reset the backoff.
+ */
+export const recordFailedUnlock = async (): Promise<FailedUnlockState> => {
+  const current = await getFailedUnlockState();
+  const next = { count: current.count + 1, lastFailedAt: Date.now() };
+  try {
+    await SecureStore.setItemAsync(FAILED_UNLOCK_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving failed unlock attempt:', error);
+  }
+  return next;
+};
+
+export const resetFailedUnlocks = async (): Promise<void> => {
+  try {
+    await SecureStore.deleteItemAsync(FAILED_UNLOCK_KEY);
+  } catch (error) {
+    console.error('Error resetting failed unlock attempts:', error);
+  }
+};
+
+export const setWipeAfterFailures = async (attempts: number | null): Promise<void> => {
+  try {
+    if (attempts) {
+      await SecureStore.setItemAsync(WIPE_AFTER_FAILURES_KEY, attempts.toString());
+    } else {
+      await SecureStore.deleteItemAsync(WIPE_AFTER_FAILURES_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving wipe setting:', error);
+    throw new Error('Failed to save wipe setting');
+  }
+};
+
+export const getWipeAfterFailures = async (): Promise<number | null> => {
+  try {
+    const value = await SecureStore.getItemAsync(WIPE_AFTER_FAILURES_KEY);
+    return value ? parseInt(value, 10) : null;
+  } catch (error) {
+    console.error('Error loading wipe setting:', error);
+    return null;
+  }
+};
+
+export const setBiometricUnlockEnabled = async (enabled: boolean): Promise<void> => {
+  try {
+    if (enabled) {
+      await SecureStore.setItemAsync(BIOMETRIC_ENABLED_KEY, 'true');
+    } else {
+      await SecureStore.deleteItemAsync(BIOMETRIC_ENABLED_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving biometric setting:', error);
+    throw new Error('Failed to save biometric setting');
+  }
+};
+
+export const getBiometricUnlockEnabled = async (): Promise<boolean> => {
+  try {
+    return (await SecureStore.getItemAsync(BIOMETRIC_ENABLED_KEY)) === 'true';
+  } catch (error) {
+    console.error('Error loading biometric setting:', error);
+    return false;
+  }
+};
+
+export type NetworkId = 'main' | 'test' | 'dev' | 'custom';
+
+/**
+ * KeetaNet network the app talks to. `customNetwork` names the network when `network` is 'custom'.
+ */
+export interface NetworkSetting {
+  network: NetworkId;
+  customNetwork: string;
+}
+
+// Network choice is a device preference, so it survives deleting the wallet
+export const setNetworkSetting = async (setting: NetworkSetting): Promise<void> => {
+  try {
+    await SecureStore.setItemAsync(NETWORK_KEY, JSON.stringify(setting));
+  } catch (error) {
+    console.error('Error saving network setting:', error);
+    throw new Error('Failed to save network setting');
+  }
+};
+
+export const getNetworkSetting = async (): Promise<NetworkSetting | null> => {
+  try {
+    const raw = await SecureStore.getItemAsync(NETWORK_KEY);
+    return raw ? (JSON.parse(raw) as NetworkSetting) : null;
+  } catch (error) {
+    console.error('Error loading network setting:', error);
+    return null;
+  }
+};
+
+/**
+ * Backend URLs in the order they should be tried. Kept when the wallet is deleted.
+ */
+export const setBackendEndpoints = async (urls: string[]): Promise<void> => {
+  try {
+    await SecureStore.setItemAsync(BACKEND_ENDPOINTS_KEY, JSON.stringify(urls));
+  } catch (error) {
+    console.error('Error saving backend endpoints:', error);
+    throw new Error('Failed to save backend endpoints');
+  }
+};
+
+export const getBackendEndpoints = async (): Promise<string[] | null> => {
+  try {
+    const raw = await SecureStore.getItemAsync(BACKEND_ENDPOINTS_KEY);
+    return raw ? (JSON.parse(raw) as string[]) : null;
+  } catch (error) {
+    console.error('Error loading backend endpoints:', error);
+    return null;
+  }
+};
+
 export const clearSecurityData = async (): Promise<void> => {
   try {
     await Promise.all([
       SecureStore.deleteItemAsync(PASSWORD_HASH_KEY),
       SecureStore.deleteItemAsync(AUTO_LOCK_MINUTES_KEY),
       SecureStore.deleteItemAsync(LAST_UNLOCKED_AT_KEY),
+      SecureStore.deleteItemAsync(FAILED_UNLOCK_KEY),
+      SecureStore.deleteItemAsync(WIPE_AFTER_FAILURES_KEY),
+      SecureStore.deleteItemAsync(PENDING_PASSWORD_CHANGE_KEY),
+      SecureStore.deleteItemAsync(BIOMETRIC_ENABLED_KEY),
     ]);
   } catch (error) {
     console.error('Error clearing security data:', error);
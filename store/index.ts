@@ -1,18 +1,43 @@
 import { configureStore } from '@reduxjs/toolkit';
+
+import { onApiBaseUrlChange, onApiConnectivityChange } from '@/services/api';
+import { listenerMiddleware } from './listeners';
 import walletReducer from './slices/walletSlice';
 import securityReducer from './slices/securitySlice';
+import historyReducer from './slices/historySlice';
+import pendingReducer from './slices/pendingSlice';
+import tokensReducer from './slices/tokensSlice';
+import networkReducer from './slices/networkSlice';
+import backendReducer, { activeEndpointChanged } from './slices/backendSlice';
+import offlineReducer, { connectivityChanged } from './slices/offlineSlice';
+import addressBookReducer from './slices/addressBookSlice';
+import paymentReducer from './slices/paymentSlice';
+import deepLinkReducer from './slices/deepLinkSlice';
 
 export const store = configureStore({
   reducer: {
     wallet: walletReducer,
     security: securityReducer,
+    history: historyReducer,
+    pending: pendingReducer,
+    tokens: tokensReducer,
+    network: networkReducer,
+    backend: backendReducer,
+    offline: offlineReducer,
+    addressBook: addressBookReducer,
+    payment: paymentReducer,
+    deepLink: deepLinkReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
       serializableCheck: false,
-    }),
+    }).prepend(listenerMiddleware.middleware),
 });
 
+// Mirror API client events (endpoint failover, lost or regained connectivity) into the store
+onApiBaseUrlChange((url) => store.dispatch(activeEndpointChanged(url)));
+onApiConnectivityChange((online) => store.dispatch(connectivityChanged(online)));
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
 
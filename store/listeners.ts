@@ -0,0 +1,39 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+
+import { setApiNetwork } from '@/services/api';
+import { getBiometricAuthenticator } from '@/services/biometrics';
+import { lockVault } from '@/services/vault';
+import type { AppDispatch, RootState } from './index';
+import { resolveNetworkName } from './slices/networkSlice';
+import { clearWalletSecrets, deleteWalletData } from './slices/walletSlice';
+
+export const listenerMiddleware = createListenerMiddleware();
+
+const startAppListening = listenerMiddleware.startListening.withTypes<RootState, AppDispatch>();
+
+// Whenever the wallet locks, forget the data key and wipe decrypted secrets from the store
+startAppListening({
+  predicate: (_action, currentState, previousState) =>
+    currentState.security.locked && !previousState.security.locked,
+  effect: (_action, listenerApi) => {
+    lockVault();
+    listenerApi.dispatch(clearWalletSecrets());
+  },
+});
+
+startAppListening({
+  actionCreator: deleteWalletData.fulfilled,
+  effect: async () => {
+    lockVault();
+    await getBiometricAuthenticator().clearUnlockKey();
+  },
+});
+
+// Point every API call at the selected network as soon as the setting changes
+startAppListening({
+  predicate: (_action, currentState, previousState) =>
+    resolveNetworkName(currentState.network) !== resolveNetworkName(previousState.network),
+  effect: (_action, listenerApi) => {
+    setApiNetwork(resolveNetworkName(listenerApi.getState().network));
+  },
+});
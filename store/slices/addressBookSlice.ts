@@ -0,0 +1,195 @@
+import { parseAddressOfKind } from '@/services/address';
+import { readCache, writeCache } from '@/services/localCache';
+import { createAsyncThunk, createSlice, isAnyOf } from '@reduxjs/toolkit';
+
+import { deleteWalletData } from './walletSlice';
+
+const CONTACTS_CACHE_KEY = 'address_book';
+const RECENTS_CACHE_KEY = 'recent_recipients';
+const MAX_RECENT_RECIPIENTS = 8;
+
+export interface Contact {
+  id: string;
+  name: string;
+  address: string;
+  note: string;
+  tags: string[];
+  // Network name the address was saved for
+  network: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ContactInput = Pick<Contact, 'name' | 'address' | 'note' | 'tags' | 'network'> & { id?: string };
+
+export interface RecentRecipient {
+  address: string;
+  network: string;
+  lastSentAt: number;
+}
+
+interface AddressBookState {
+  contacts: Contact[];
+  recents: RecentRecipient[];
+  loaded: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: AddressBookState = {
+  contacts: [],
+  recents: [],
+  loaded: false,
+  saving: false,
+  error: null,
+};
+
+const selectAddressBook = (state: unknown) => (state as { addressBook: AddressBookState }).addressBook;
+
+export const selectContacts = (state: { addressBook: AddressBookState }) => state.addressBook.contacts;
+
+/**
+ * Contact saved under this address on this network, if any
+ */
+export const findContact = (contacts: Contact[], address: string, network: string) =>
+  contacts.find((contact) => contact.address === address && contact.network === network) || null;
+
+/**
+ * Contacts on a network whose name, address or tags contain the query
+ */
+export const searchContacts = (contacts: Contact[], query: string, network: string) => {
+  const needle = query.trim().toLowerCase();
+  return contacts.filter(
+    (contact) =>
+      contact.network === network &&
+      (!needle ||
+        contact.name.toLowerCase().includes(needle) ||
+        contact.address.toLowerCase().includes(needle) ||
+        contact.tags.some((tag) => tag.toLowerCase().includes(needle)))
+  );
+};
+
+/**
+ * Split free-text tags on commas, dropping blanks and duplicates
+ */
+export const parseTags = (input: string) =>
+  Array.from(new Set(input.split(',').map((tag) => tag.trim()).filter(Boolean)));
+
+export const loadAddressBook = createAsyncThunk('addressBook/load', async () => {
+  const [contacts, recents] = await Promise.all([
+    readCache<Contact[]>(CONTACTS_CACHE_KEY),
+    readCache<RecentRecipient[]>(RECENTS_CACHE_KEY),
+  ]);
+  return { contacts: contacts || [], recents: recents || [] };
+});
+
+/**
+ * Add a contact, or update it when `id` is set
+ */
+export const saveContact = createAsyncThunk(
+  'addressBook/save',
+  async (input: ContactInput, { getState, rejectWithValue }) => {
+    try {
+      const name = input.name.trim();
+      if (!name) {
+        throw new Error('Give this contact a name');
+      }
+      const { address } = parseAddressOfKind(input.address, 'account');
+      if (!input.network) {
+        throw new Error('Pick the network this address belongs to');
+      }
+
+      const { contacts } = selectAddressBook(getState());
+      const duplicate = findContact(contacts, address, input.network);
+      if (duplicate && duplicate.id !== input.id) {
+        throw new Error(`This address is already saved as "${duplicate.name}"`);
+      }
+
+      const now = Date.now();
+      const existing = input.id ? contacts.find((contact) => contact.id === input.id) : undefined;
+      const contact: Contact = {
+        id: existing?.id || `${now}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        address,
+        note: input.note.trim(),
+        tags: input.tags,
+        network: input.network,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+      const next = existing
+        ? contacts.map((item) => (item.id === existing.id ? contact : item))
+        : [...contacts, contact];
+      next.sort((a, b) => a.name.localeCompare(b.name));
+      await writeCache(CONTACTS_CACHE_KEY, next);
+      return next;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to save contact');
+    }
+  }
+);
+
+export const removeContact = createAsyncThunk(
+  'addressBook/remove',
+  async (id: string, { getState, rejectWithValue }) => {
+    try {
+      const next = selectAddressBook(getState()).contacts.filter((contact) => contact.id !== id);
+      await writeCache(CONTACTS_CACHE_KEY, next);
+      return next;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to remove contact');
+    }
+  }
+);
+
+/**
+ * Remember a recipient after a successful send, most recent first
+ */
+export const recordRecipient = createAsyncThunk(
+  'addressBook/recordRecipient',
+  async ({ address, network }: { address: string; network: string }, { getState }) => {
+    const recents = selectAddressBook(getState()).recents.filter(
+      (item) => !(item.address === address && item.network === network)
+    );
+    const next = [{ address, network, lastSentAt: Date.now() }, ...recents].slice(0, MAX_RECENT_RECIPIENTS);
+    await writeCache(RECENTS_CACHE_KEY, next);
+    return next;
+  }
+);
+
+const addressBookSlice = createSlice({
+  name: 'addressBook',
+  initialState,
+  reducers: {
+    clearAddressBookError(state) {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadAddressBook.fulfilled, (state, action) => {
+        state.loaded = true;
+        state.contacts = action.payload.contacts;
+        state.recents = action.payload.recents;
+      })
+      .addCase(recordRecipient.fulfilled, (state, action) => {
+        state.recents = action.payload;
+      })
+      .addCase(deleteWalletData.fulfilled, () => initialState)
+      .addMatcher(isAnyOf(saveContact.pending, removeContact.pending), (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addMatcher(isAnyOf(saveContact.fulfilled, removeContact.fulfilled), (state, action) => {
+        state.saving = false;
+        state.contacts = action.payload;
+      })
+      .addMatcher(isAnyOf(saveContact.rejected, removeContact.rejected), (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { clearAddressBookError } = addressBookSlice.actions;
+export default addressBookSlice.reducer;
@@ -0,0 +1,193 @@
+import {
+  checkBackendHealth,
+  DEFAULT_API_BASE_URL,
+  getApiBaseUrl,
+  HealthCheckResult,
+  normalizeEndpointUrl,
+  setApiEndpoints,
+} from '@/services/api';
+import { getBackendEndpoints, setBackendEndpoints } from '@/services/walletStorage';
+import { createAsyncThunk, createSlice, isAnyOf, PayloadAction } from '@reduxjs/toolkit';
+
+export type { HealthCheckResult } from '@/services/api';
+
+interface BackendState {
+  // Preferred order; the first reachable one is used
+  endpoints: string[];
+  activeUrl: string;
+  health: { [url: string]: HealthCheckResult };
+  checking: { [url: string]: boolean };
+  loaded: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: BackendState = {
+  endpoints: [DEFAULT_API_BASE_URL],
+  activeUrl: DEFAULT_API_BASE_URL,
+  health: {},
+  checking: {},
+  loaded: false,
+  saving: false,
+  error: null,
+};
+
+const selectEndpoints = (state: unknown) => (state as { backend: BackendState }).backend.endpoints;
+
+const saveEndpoints = async (urls: string[]) => {
+  await setBackendEndpoints(urls);
+  setApiEndpoints(urls);
+  return { endpoints: urls, activeUrl: getApiBaseUrl() };
+};
+
+const assertReachable = async (url: string) => {
+  const health = await checkBackendHealth(url);
+  if (!health.ok) {
+    throw new Error(`${url} failed the health check: ${health.message}`);
+  }
+};
+
+export const loadBackendEndpoints = createAsyncThunk('backend/load', async () => {
+  const stored = await getBackendEndpoints();
+  const endpoints = stored && stored.length > 0 ? stored : [DEFAULT_API_BASE_URL];
+  setApiEndpoints(endpoints);
+  return { endpoints, activeUrl: getApiBaseUrl() };
+});
+
+export const checkEndpointHealth = createAsyncThunk('backend/checkHealth', async (url: string) => {
+  return await checkBackendHealth(url);
+});
+
+/**
+ * Validate and ping a new endpoint, then make it the preferred one
+ */
+export const addBackendEndpoint = createAsyncThunk(
+  'backend/add',
+  async (input: string, { getState, rejectWithValue }) => {
+    try {
+      const url = normalizeEndpointUrl(input);
+      if (!url) {
+        throw new Error('Enter a full http:// or https:// URL');
+      }
+      const endpoints = selectEndpoints(getState());
+      if (endpoints.includes(url)) {
+        throw new Error('This endpoint is already in the list');
+      }
+      await assertReachable(url);
+      return await saveEndpoints([url, ...endpoints]);
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to add endpoint');
+    }
+  }
+);
+
+/**
+ * Move a saved endpoint to the front after confirming it responds
+ */
+export const preferBackendEndpoint = createAsyncThunk(
+  'backend/prefer',
+  async (url: string, { getState, rejectWithValue }) => {
+    try {
+      await assertReachable(url);
+      const endpoints = selectEndpoints(getState());
+      return await saveEndpoints([url, ...endpoints.filter((endpoint) => endpoint !== url)]);
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to switch endpoint');
+    }
+  }
+);
+
+export const removeBackendEndpoint = createAsyncThunk(
+  'backend/remove',
+  async (url: string, { getState, rejectWithValue }) => {
+    try {
+      const remaining = selectEndpoints(getState()).filter((endpoint) => endpoint !== url);
+      if (remaining.length === 0) {
+        throw new Error('Keep at least one endpoint');
+      }
+      return await saveEndpoints(remaining);
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to remove endpoint');
+    }
+  }
+);
+
+export const resetBackendEndpoints = createAsyncThunk('backend/reset', async (_, { rejectWithValue }) => {
+  try {
+    return await saveEndpoints([DEFAULT_API_BASE_URL]);
+  } catch (error: any) {
+    return rejectWithValue(error.message || 'Failed to reset endpoints');
+  }
+});
+
+const backendSlice = createSlice({
+  name: 'backend',
+  initialState,
+  reducers: {
+    // Dispatched by the API client when it fails over to another endpoint
+    activeEndpointChanged(state, action: PayloadAction<string>) {
+      state.activeUrl = action.payload;
+    },
+    clearBackendError(state) {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadBackendEndpoints.fulfilled, (state, action) => {
+        state.loaded = true;
+        state.endpoints = action.payload.endpoints;
+        state.activeUrl = action.payload.activeUrl;
+      })
+      .addCase(checkEndpointHealth.pending, (state, action) => {
+        state.checking[action.meta.arg] = true;
+      })
+      .addCase(checkEndpointHealth.fulfilled, (state, action) => {
+        delete state.checking[action.meta.arg];
+        state.health[action.meta.arg] = action.payload;
+      })
+      .addCase(checkEndpointHealth.rejected, (state, action) => {
+        delete state.checking[action.meta.arg];
+      })
+      .addMatcher(
+        isAnyOf(
+          addBackendEndpoint.pending,
+          preferBackendEndpoint.pending,
+          removeBackendEndpoint.pending,
+          resetBackendEndpoints.pending
+        ),
+        (state) => {
+          state.saving = true;
+          state.error = null;
+        }
+      )
+      .addMatcher(
+        isAnyOf(
+          addBackendEndpoint.fulfilled,
+          preferBackendEndpoint.fulfilled,
+          removeBackendEndpoint.fulfilled,
+          resetBackendEndpoints.fulfilled
+        ),
+        (state, action) => {
+          state.saving = false;
+          state.endpoints = action.payload.endpoints;
+          state.activeUrl = action.payload.activeUrl;
+        }
+      )
+      .addMatcher(
+        isAnyOf(
+          addBackendEndpoint.rejected,
+          preferBackendEndpoint.rejected,
+          removeBackendEndpoint.rejected,
+          resetBackendEndpoints.rejected
+        ),
+        (state, action) => {
+          state.saving = false;
+          state.error = action.payload as string;
+        }
+      );
+  },
+});
+
+export const { activeEndpointChanged, clearBackendError } = backendSlice.actions;
+export default backendSlice.reducer;
@@ -0,0 +1,51 @@
+import type { DeepLink } from '@/services/deepLink';
+import { createSlice, isAnyOf, PayloadAction } from '@reduxjs/toolkit';
+
+import { initializeSecurity, refreshLockState } from './securitySlice';
+import { deleteWalletData } from './walletSlice';
+
+interface DeepLinkState {
+  // Link that arrived while the app may have been locked, waiting to be routed
+  pending: DeepLink | null;
+  // The lock state has been re-read since the link arrived, so `security.locked` can be trusted
+  lockChecked: boolean;
+}
+
+const initialState: DeepLinkState = {
+  pending: null,
+  lockChecked: false,
+};
+
+const deepLinkSlice = createSlice({
+  name: 'deepLink',
+  initialState,
+  reducers: {
+    deepLinkReceived(state, action: PayloadAction<DeepLink>) {
+      state.pending = action.payload;
+      state.lockChecked = false;
+    },
+    deepLinkHandled(state) {
+      state.pending = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(deleteWalletData.fulfilled, (state) => {
+        state.pending = null;
+      })
+      .addMatcher(
+        isAnyOf(
+          initializeSecurity.fulfilled,
+          initializeSecurity.rejected,
+          refreshLockState.fulfilled,
+          refreshLockState.rejected
+        ),
+        (state) => {
+          state.lockChecked = true;
+        }
+      );
+  },
+});
+
+export const { deepLinkReceived, deepLinkHandled } = deepLinkSlice.actions;
+export default deepLinkSlice.reducer;
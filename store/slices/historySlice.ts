@@ -0,0 +1,207 @@
+import { getApiNetwork, HistoryEntry, walletApi } from '@/services/api';
+import { describeError } from '@/services/errors';
+import { readCache, writeCache } from '@/services/localCache';
+import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+
+import { updateNetworkSetting } from './networkSlice';
+import { deleteWalletData, removeAccount } from './walletSlice';
+
+export type { HistoryEntry, HistoryEntryType } from '@/services/api';
+
+const HISTORY_PAGE_SIZE = 20;
+// Enough to show a useful feed offline without growing the cache forever
+const MAX_CACHED_ENTRIES = 100;
+
+/**
+ * Activity for one account. Entries are newest first.
+ */
+export interface HistoryFeed {
+  entries: HistoryEntry[];
+  nextCursor: string | null;
+  loading: boolean;
+  loadingMore: boolean;
+  error: string | null;
+  lastFetchedAt: number | null;
+}
+
+interface HistoryState {
+  byAddress: { [address: string]: HistoryFeed };
+}
+
+interface CachedHistory {
+  entries: HistoryEntry[];
+  nextCursor: string | null;
+  lastFetchedAt: number;
+}
+
+const initialState: HistoryState = {
+  byAddress: {},
+};
+
+const EMPTY_FEED: HistoryFeed = {
+  entries: [],
+  nextCursor: null,
+  loading: false,
+  loadingMore: false,
+  error: null,
+  lastFetchedAt: null,
+};
+
+// Activity is per network, so each network keeps its own cached copy
+const historyCacheKey = (address: string) => `history_${getApiNetwork()}_${address}`;
+
+const ensureFeed = (state: HistoryState, address: string): HistoryFeed => {
+  if (!state.byAddress[address]) {
+    state.byAddress[address] = { ...EMPTY_FEED };
+  }
+  return state.byAddress[address];
+};
+
+const mergeEntries = (existing: HistoryEntry[], incoming: HistoryEntry[]) => {
+  const seen = new Set(existing.map((entry) => entry.blockHash));
+  return [...existing, ...incoming.filter((entry) => !seen.has(entry.blockHash))];
+};
+
+const persistFeed = (address: string, entries: HistoryEntry[], nextCursor: string | null) => {
+  const cached: CachedHistory = {
+    entries: entries.slice(0, MAX_CACHED_ENTRIES),
+    // A truncated list can't resume from the server cursor; the next refresh restores it
+    nextCursor: entries.length > MAX_CACHED_ENTRIES ? null : nextCursor,
+    lastFetchedAt: Date.now(),
+  };
+  return writeCache(historyCacheKey(address), cached);
+};
+
+/**
+ * Activity feed for an address, or an empty feed before anything loaded
+ */
+export const selectHistory = (state: { history: HistoryState }, address: string | null): HistoryFeed =>
+  (address && state.history.byAddress[address]) || EMPTY_FEED;
+
+/**
+ * Show the last known activity immediately while the network request runs
+ */
+export const loadCachedHistory = createAsyncThunk('history/loadCached', async (address: string) => {
+  return await readCache<CachedHistory>(historyCacheKey(address));
+});
+
+export const fetchHistory = createAsyncThunk(
+  'history/fetch',
+  async (address: string, { rejectWithValue }) => {
+    try {
+      const response = await walletApi.getAccountHistory(address, { limit: HISTORY_PAGE_SIZE });
+      if (!response.success || !response.data) {
+        return rejectWithValue(response.message || 'Failed to load activity');
+      }
+      await persistFeed(address, response.data.entries, response.data.nextCursor);
+      return {
+        entries: response.data.entries,
+        nextCursor: response.data.nextCursor,
+      };
+    } catch (error) {
+      return rejectWithValue(describeError(error, 'Failed to load activity'));
+    }
+  }
+);
+
+export const fetchMoreHistory = createAsyncThunk(
+  'history/fetchMore',
+  async (address: string, { getState, rejectWithValue }) => {
+    try {
+      const feed = selectHistory(getState() as { history: HistoryState }, address);
+      const response = await walletApi.getAccountHistory(address, {
+        cursor: feed.nextCursor,
+        limit: HISTORY_PAGE_SIZE,
+      });
+      if (!response.success || !response.data) {
+        return rejectWithValue(response.message || 'Failed to load more activity');
+      }
+      const entries = mergeEntries(feed.entries, response.data.entries);
+      await persistFeed(address, entries, response.data.nextCursor);
+      return {
+        entries,
+        nextCursor: response.data.nextCursor,
+      };
+    } catch (error) {
+      return rejectWithValue(describeError(error, 'Failed to load more activity'));
+    }
+  },
+  {
+    condition: (address, { getState }) => {
+      const feed = selectHistory(getState() as { history: HistoryState }, address);
+      return Boolean(feed.nextCursor) && !feed.loading && !feed.loadingMore;
+    },
+  }
+);
+
+const historySlice = createSlice({
+  name: 'history',
+  initialState,
+  reducers: {
+    clearHistory(state) {
+      state.byAddress = {};
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadCachedHistory.fulfilled, (state, action) => {
+        const feed = ensureFeed(state, action.meta.arg);
+        // Never overwrite a feed that the network already refreshed
+        if (action.payload && !feed.lastFetchedAt) {
+          feed.entries = action.payload.entries;
+          feed.nextCursor = action.payload.nextCursor;
+          feed.lastFetchedAt = action.payload.lastFetchedAt;
+        }
+      })
+      .addCase(fetchHistory.pending, (state, action) => {
+        const feed = ensureFeed(state, action.meta.arg);
+        feed.loading = true;
+        feed.error = null;
+      })
+      .addCase(fetchHistory.fulfilled, (state, action) => {
+        const feed = ensureFeed(state, action.meta.arg);
+        feed.loading = false;
+        feed.entries = action.payload.entries;
+        feed.nextCursor = action.payload.nextCursor;
+        feed.lastFetchedAt = Date.now();
+      })
+      .addCase(fetchHistory.rejected, (state, action) => {
+        const feed = ensureFeed(state, action.meta.arg);
+        feed.loading = false;
+        feed.error = (action.payload as string) || action.error.message || 'Failed to load activity';
+      })
+      .addCase(fetchMoreHistory.pending, (state, action) => {
+        const feed = ensureFeed(state, action.meta.arg);
+        feed.loadingMore = true;
+        feed.error = null;
+      })
+      .addCase(fetchMoreHistory.fulfilled, (state, action) => {
+        const feed = ensureFeed(state, action.meta.arg);
+        feed.loadingMore = false;
+        feed.entries = action.payload.entries;
+        feed.nextCursor = action.payload.nextCursor;
+      })
+      .addCase(fetchMoreHistory.rejected, (state, action) => {
+        const feed = ensureFeed(state, action.meta.arg);
+        feed.loadingMore = false;
+        feed.error = (action.payload as string) || action.error.message || 'Failed to load more activity';
+      })
+      .addCase(removeAccount.fulfilled, (state, action) => {
+        const remaining = new Set(action.payload.accounts.map((account) => account.address));
+        Object.keys(state.byAddress).forEach((address) => {
+          if (!remaining.has(address)) {
+            delete state.byAddress[address];
+          }
+        });
+      })
+      .addCase(updateNetworkSetting.fulfilled, (state) => {
+        state.byAddress = {};
+      })
+      .addCase(deleteWalletData.fulfilled, (state) => {
+        state.byAddress = {};
+      });
+  },
+});
+
+export const { clearHistory } = historySlice.actions;
+export default historySlice.reducer;
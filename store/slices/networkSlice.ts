@@ -0,0 +1,84 @@
+import { DEFAULT_NETWORK } from '@/services/api';
+import { getNetworkSetting, NetworkId, NetworkSetting, setNetworkSetting } from '@/services/walletStorage';
+import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+
+export type { NetworkId, NetworkSetting } from '@/services/walletStorage';
+
+export const NETWORK_OPTIONS: NetworkId[] = ['main', 'test', 'dev', 'custom'];
+
+// Names the backend accepts for a custom network
+const CUSTOM_NETWORK_REGEX = /^[a-z0-9][a-z0-9_-]{0,31}$/i;
+
+interface NetworkState extends NetworkSetting {
+  loaded: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: NetworkState = {
+  network: DEFAULT_NETWORK,
+  customNetwork: '',
+  loaded: false,
+  saving: false,
+  error: null,
+};
+
+/**
+ * Network name to send to the backend for a setting
+ */
+export const resolveNetworkName = (setting: NetworkSetting): string =>
+  setting.network === 'custom' ? setting.customNetwork : setting.network;
+
+export const selectNetworkName = (state: { network: NetworkState }) => resolveNetworkName(state.network);
+
+export const loadNetworkSetting = createAsyncThunk('network/load', async () => {
+  return await getNetworkSetting();
+});
+
+export const updateNetworkSetting = createAsyncThunk(
+  'network/update',
+  async (setting: NetworkSetting, { rejectWithValue }) => {
+    try {
+      const customNetwork = setting.customNetwork.trim();
+      if (setting.network === 'custom' && !CUSTOM_NETWORK_REGEX.test(customNetwork)) {
+        throw new Error('Custom network names use letters, digits, dashes or underscores (max 32 characters)');
+      }
+      const next: NetworkSetting = { network: setting.network, customNetwork };
+      await setNetworkSetting(next);
+      return next;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to change network');
+    }
+  }
+);
+
+const networkSlice = createSlice({
+  name: 'network',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadNetworkSetting.fulfilled, (state, action) => {
+        state.loaded = true;
+        if (action.payload) {
+          state.network = action.payload.network;
+          state.customNetwork = action.payload.customNetwork;
+        }
+      })
+      .addCase(updateNetworkSetting.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(updateNetworkSetting.fulfilled, (state, action) => {
+        state.saving = false;
+        state.network = action.payload.network;
+        state.customNetwork = action.payload.customNetwork;
+      })
+      .addCase(updateNetworkSetting.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default networkSlice.reducer;
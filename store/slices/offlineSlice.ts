@@ -0,0 +1,256 @@
+import { reconnect, walletApi } from '@/services/api';
+import { describeError, failedResponseError } from '@/services/errors';
+import { resolveSigningKey } from '@/services/keyring';
+import { readCache, writeCache } from '@/services/localCache';
+import { signAndTransfer } from '@/services/signer';
+import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+import { recordRecipient } from './addressBookSlice';
+import { resolveNetworkName } from './networkSlice';
+import type { NetworkSetting } from './networkSlice';
+import { NOT_FOUND_TIMEOUT_MS, trackTransaction } from './pendingSlice';
+import { deleteWalletData, fetchAccountBalance } from './walletSlice';
+import type { WalletAccount, WalletData } from './walletSlice';
+
+const QUEUE_CACHE_KEY = 'queued_sends';
+
+/**
+ * A send the user asked for while offline. Nothing is signed until they confirm it
+ * again once the backend is reachable.
+ */
+export interface QueuedSend {
+  id: string;
+  account: string;
+  recipient: string;
+  amount: string;
+  tokenAddress: string | null;
+  network: string;
+  queuedAt: number;
+  // Set once a replay signed the send, so a publish whose outcome was lost is never sent twice
+  signedHash?: string | null;
+  signedAt?: number | null;
+}
+
+interface OfflineState {
+  online: boolean;
+  offlineSince: number | null;
+  checking: boolean;
+  queue: QueuedSend[];
+  replayingId: string | null;
+}
+
+const initialState: OfflineState = {
+  online: true,
+  offlineSince: null,
+  checking: false,
+  queue: [],
+  replayingId: null,
+};
+
+// Only the parts of the root state the replay needs; avoids importing the store type
+interface ReplayState {
+  offline: OfflineState;
+  network: NetworkSetting;
+  wallet: { walletData: WalletData | null; accounts: WalletAccount[]; activeAccountId: string | null };
+}
+
+const selectQueue = (state: unknown) => (state as { offline: OfflineState }).offline.queue;
+
+const updateQueuedSend = async (getState: () => unknown, id: string, changes: Partial<QueuedSend>) => {
+  const queue = selectQueue(getState()).map((item) => (item.id === id ? { ...item, ...changes } : item));
+  await writeCache(QUEUE_CACHE_KEY, queue);
+  return queue;
+};
+
+/**
+ * Whether an earlier replay of this send reached the network. Resolves to false only
+ * when it is safe to sign again: the node failed it, or never saw it within the usual window.
+ */
+const wasAlreadySent = async (item: QueuedSend): Promise<boolean> => {
+  if (!item.signedHash) {
+    return false;
+  }
+  let status;
+  try {
+    status = (await walletApi.getTransactionStatus(item.signedHash, item.network)).data.status;
+  } catch (error) {
+    throw new Error(`Couldn't check whether this send already went through: ${describeError(error, 'network error')}`);
+  }
+  if (status === 'confirmed' || status === 'pending') {
+    return true;
+  }
+  if (status === 'not_found' && Date.now() - (item.signedAt || 0) < NOT_FOUND_TIMEOUT_MS) {
+    throw new Error('The last attempt at this send may still be going through. Try again in a few minutes.');
+  }
+  return false;
+};
+
+export const selectQueuedSends = (state: { offline: OfflineState }) => state.offline.queue;
+
+/**
+ * Probe the backend while offline. Requests resume on their own once it answers.
+ */
+export const checkConnectivity = createAsyncThunk('offline/check', async () => {
+  return await reconnect();
+});
+
+export const loadQueuedSends = createAsyncThunk('offline/loadQueue', async () => {
+  return (await readCache<QueuedSend[]>(QUEUE_CACHE_KEY)) || [];
+});
+
+export const queueSend = createAsyncThunk(
+  'offline/queueSend',
+  async (send: Omit<QueuedSend, 'id' | 'queuedAt'>, { getState }) => {
+    const queuedAt = Date.now();
+    const entry: QueuedSend = { ...send, id: `${queuedAt}-${Math.random().toString(36).slice(2, 8)}`, queuedAt };
+    const queue = [...selectQueue(getState()), entry];
+    await writeCache(QUEUE_CACHE_KEY, queue);
+    return queue;
+  }
+);
+
+export const discardQueuedSend = createAsyncThunk('offline/discard', async (id: string, { getState }) => {
+  const queue = selectQueue(getState()).filter((item) => item.id !== id);
+  await writeCache(QUEUE_CACHE_KEY, queue);
+  return queue;
+});
+
+/**
+ * Sign and publish a queued send after the user confirmed it. It must belong to the
+ * active account and the selected network, and the wallet must be unlocked.
+ * A send whose earlier publish timed out is checked on the network before it is signed again.
+ */
+export const replayQueuedSend = createAsyncThunk(
+  'offline/replay',
+  async (id: string, { getState, dispatch, rejectWithValue }) => {
+    try {
+      const state = getState() as ReplayState;
+      const item = state.offline.queue.find((queued) => queued.id === id);
+      if (!item) {
+        throw new Error('This send is no longer queued');
+      }
+      const { walletData, accounts, activeAccountId } = state.wallet;
+      if (walletData?.address !== item.account) {
+        throw new Error('Switch to the account that queued this send first');
+      }
+      if (resolveNetworkName(state.network) !== item.network) {
+        throw new Error(`Switch to the ${item.network} network to send this`);
+      }
+      const activeAccount = accounts.find((account) => account.id === activeAccountId);
+      const signingKey = resolveSigningKey(walletData, activeAccount?.derivationIndex);
+      if (!signingKey) {
+        throw new Error('Unlock the wallet to sign this send');
+      }
+
+      if (item.signedHash && (await wasAlreadySent(item))) {
+        dispatch(
+          trackTransaction({
+            hash: item.signedHash,
+            account: item.account,
+            recipient: item.recipient,
+            amount: item.amount,
+            tokenAddress: item.tokenAddress,
+            network: item.network,
+          })
+        );
+      } else {
+        const response = await signAndTransfer(
+          signingKey,
+          {
+            account: item.account,
+            recipient: item.recipient,
+            amount: item.amount,
+            tokenAddress: item.tokenAddress || undefined,
+            network: item.network,
+          },
+          async (blocks) => {
+            dispatch(
+              queuedSendsUpdated(
+                await updateQueuedSend(getState, id, { signedHash: blocks[0]?.hash || null, signedAt: Date.now() })
+              )
+            );
+          }
+        );
+        if (!response.success) {
+          // The node answered and refused it, so signing again later is safe
+          dispatch(queuedSendsUpdated(await updateQueuedSend(getState, id, { signedHash: null, signedAt: null })));
+          throw failedResponseError(response, 'Transfer failed');
+        }
+
+        const blockHash = response.data.blocks?.[0]?.hash;
+        if (blockHash) {
+          dispatch(
+            trackTransaction({
+              hash: blockHash,
+              account: item.account,
+              recipient: response.data.recipient,
+              amount: response.data.amount,
+              tokenAddress: response.data.tokenAddress,
+              network: item.network,
+            })
+          );
+        }
+      }
+      dispatch(recordRecipient({ address: item.recipient, network: item.network }));
+      dispatch(fetchAccountBalance(item.account));
+
+      const queue = selectQueue(getState()).filter((queued) => queued.id !== id);
+      await writeCache(QUEUE_CACHE_KEY, queue);
+      return queue;
+    } catch (error) {
+      return rejectWithValue(describeError(error, 'Failed to send'));
+    }
+  }
+);
+
+const offlineSlice = createSlice({
+  name: 'offline',
+  initialState,
+  reducers: {
+    // Dispatched by the API client when requests stop or start reaching a backend
+    connectivityChanged(state, action: PayloadAction<boolean>) {
+      state.online = action.payload;
+      state.offlineSince = action.payload ? null : state.offlineSince ?? Date.now();
+    },
+    queuedSendsUpdated(state, action: PayloadAction<QueuedSend[]>) {
+      state.queue = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(checkConnectivity.pending, (state) => {
+        state.checking = true;
+      })
+      .addCase(checkConnectivity.fulfilled, (state) => {
+        state.checking = false;
+      })
+      .addCase(checkConnectivity.rejected, (state) => {
+        state.checking = false;
+      })
+      .addCase(loadQueuedSends.fulfilled, (state, action) => {
+        state.queue = action.payload;
+      })
+      .addCase(queueSend.fulfilled, (state, action) => {
+        state.queue = action.payload;
+      })
+      .addCase(discardQueuedSend.fulfilled, (state, action) => {
+        state.queue = action.payload;
+      })
+      .addCase(replayQueuedSend.pending, (state, action) => {
+        state.replayingId = action.meta.arg;
+      })
+      .addCase(replayQueuedSend.fulfilled, (state, action) => {
+        state.replayingId = null;
+        state.queue = action.payload;
+      })
+      .addCase(replayQueuedSend.rejected, (state) => {
+        state.replayingId = null;
+      })
+      .addCase(deleteWalletData.fulfilled, (state) => {
+        state.queue = [];
+      });
+  },
+});
+
+export const { connectivityChanged, queuedSendsUpdated } = offlineSlice.actions;
+export default offlineSlice.reducer;
@@ -0,0 +1,34 @@
+import type { PaymentRequest } from '@/services/paymentRequest';
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+import { deleteWalletData } from './walletSlice';
+
+interface PaymentState {
+  // Payment handed over by another screen, waiting for the send form to pick it up
+  draft: PaymentRequest | null;
+}
+
+const initialState: PaymentState = {
+  draft: null,
+};
+
+const paymentSlice = createSlice({
+  name: 'payment',
+  initialState,
+  reducers: {
+    paymentDraftReceived(state, action: PayloadAction<PaymentRequest>) {
+      state.draft = action.payload;
+    },
+    paymentDraftConsumed(state) {
+      state.draft = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(deleteWalletData.fulfilled, (state) => {
+      state.draft = null;
+    });
+  },
+});
+
+export const { paymentDraftReceived, paymentDraftConsumed } = paymentSlice.actions;
+export default paymentSlice.reducer;
@@ -0,0 +1,178 @@
+import { walletApi } from '@/services/api';
+import { readCache, writeCache } from '@/services/localCache';
+import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+
+import { fetchHistory } from './historySlice';
+import { deleteWalletData, fetchAccountBalance } from './walletSlice';
+
+const PENDING_CACHE_KEY = 'pending_transactions';
+// A block the node still can't find after this long is treated as dropped
+export const NOT_FOUND_TIMEOUT_MS = 10 * 60 * 1000;
+// Settled entries are kept briefly so the user sees the outcome
+const SETTLED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type PendingStatus = 'pending' | 'confirmed' | 'failed';
+
+/**
+ * A transfer this device published, tracked until the network settles it
+ */
+export interface PendingTransaction {
+  hash: string;
+  account: string;
+  recipient: string;
+  amount: string;
+  tokenAddress: string | null;
+  network: string;
+  submittedAt: number;
+  status: PendingStatus;
+  settledAt: number | null;
+  reason: string | null;
+}
+
+interface PendingState {
+  items: PendingTransaction[];
+}
+
+const initialState: PendingState = {
+  items: [],
+};
+
+const selectItems = (state: unknown) => (state as { pending: PendingState }).pending.items;
+
+const pruneSettled = (items: PendingTransaction[]) =>
+  items.filter(
+    (item) => item.status === 'pending' || !item.settledAt || Date.now() - item.settledAt < SETTLED_RETENTION_MS
+  );
+
+/**
+ * Every tracked transfer, newest first. Filter by account in the component.
+ */
+export const selectPendingTransactions = (state: { pending: PendingState }) => state.pending.items;
+
+export const loadPendingTransactions = createAsyncThunk('pending/load', async () => {
+  const items = pruneSettled((await readCache<PendingTransaction[]>(PENDING_CACHE_KEY)) || []);
+  await writeCache(PENDING_CACHE_KEY, items);
+  return items;
+});
+
+export const trackTransaction = createAsyncThunk(
+  'pending/track',
+  async (
+    transaction: Omit<PendingTransaction, 'status' | 'submittedAt' | 'settledAt' | 'reason'>,
+    { getState }
+  ) => {
+    const entry: PendingTransaction = {
+      ...transaction,
+      status: 'pending',
+      submittedAt: Date.now(),
+      settledAt: null,
+      reason: null,
+    };
+    const items = [entry, ...selectItems(getState()).filter((item) => item.hash !== entry.hash)];
+    await writeCache(PENDING_CACHE_KEY, items);
+    return items;
+  }
+);
+
+/**
+ * Settle a tracked transfer the node refused outright, without waiting for the poller
+ */
+export const markTransactionFailed = createAsyncThunk(
+  'pending/markFailed',
+  async ({ hash, reason }: { hash: string; reason: string }, { getState }) => {
+    const items = selectItems(getState()).map((item) =>
+      item.hash === hash ? { ...item, status: 'failed' as const, settledAt: Date.now(), reason } : item
+    );
+    await writeCache(PENDING_CACHE_KEY, items);
+    return items;
+  }
+);
+
+export const dismissTransaction = createAsyncThunk('pending/dismiss', async (hash: string, { getState }) => {
+  const items = selectItems(getState()).filter((item) => item.hash !== hash);
+  await writeCache(PENDING_CACHE_KEY, items);
+  return items;
+});
+
+/**
+ * Ask the node about every unsettled transfer. Accounts whose transfers settled
+ * get their balance and activity refreshed.
+ */
+export const pollPendingTransactions = createAsyncThunk(
+  'pending/poll',
+  async (_, { getState, dispatch }) => {
+    const items = selectItems(getState());
+    const settledAccounts = new Set<string>();
+
+    const updated = await Promise.all(
+      items.map(async (item): Promise<PendingTransaction> => {
+        if (item.status !== 'pending') {
+          return item;
+        }
+        try {
+          const response = await walletApi.getTransactionStatus(item.hash, item.network);
+          const { status, reason } = response.data;
+          if (status === 'confirmed' || status === 'failed') {
+            settledAccounts.add(item.account);
+            return { ...item, status, settledAt: Date.now(), reason: reason || null };
+          }
+          if (status === 'not_found' && Date.now() - item.submittedAt > NOT_FOUND_TIMEOUT_MS) {
+            settledAccounts.add(item.account);
+            return {
+              ...item,
+              status: 'failed',
+              settledAt: Date.now(),
+              reason: 'The network never accepted this transfer',
+            };
+          }
+        } catch (error) {
+          console.error('Error checking transaction status:', error);
+        }
+        return item;
+      })
+    );
+
+    // Merge into the current list so transfers tracked or dismissed meanwhile are respected
+    const polled = new Map(updated.map((item) => [item.hash, item]));
+    const merged = selectItems(getState()).map((item) => polled.get(item.hash) || item);
+    await writeCache(PENDING_CACHE_KEY, merged);
+    settledAccounts.forEach((account) => {
+      dispatch(fetchAccountBalance(account));
+      dispatch(fetchHistory(account));
+    });
+    return merged;
+  },
+  {
+    condition: (_, { getState }) => selectItems(getState()).some((item) => item.status === 'pending'),
+  }
+);
+
+const pendingSlice = createSlice({
+  name: 'pending',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadPendingTransactions.fulfilled, (state, action) => {
+        state.items = action.payload;
+      })
+      .addCase(trackTransaction.fulfilled, (state, action) => {
+        state.items = action.payload;
+      })
+      .addCase(markTransactionFailed.fulfilled, (state, action) => {
+        state.items = action.payload;
+      })
+      .addCase(dismissTransaction.fulfilled, (state, action) => {
+        state.items = action.payload;
+      })
+      .addCase(pollPendingTransactions.fulfilled, (state, action) => {
+        const polled = new Map(action.payload.map((item) => [item.hash, item]));
+        state.items = state.items.map((item) => polled.get(item.hash) || item);
+      })
+      .addCase(deleteWalletData.fulfilled, (state) => {
+        state.items = [];
+      });
+  },
+});
+
+export default pendingSlice.reducer;
@@ -1,23 +1,57 @@
-import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
-import * as Crypto from 'expo-crypto';
+import { createAsyncThunk, createSlice, isAnyOf, PayloadAction, ThunkDispatch, UnknownAction } from '@reduxjs/toolkit';
 
+import { getBiometricAuthenticator } from '@/services/biometrics';
+import { createPasswordVerifier, verifyPassword } from '@/services/password';
 import {
+  createVault,
+  exportSessionKey,
+  isVaultUnlocked,
+  rewrapVault,
+  unlockVault,
+  unlockVaultWithKey,
+} from '@/services/vault';
+import {
+  applyPasswordChange,
+  clearPendingPasswordChange,
+  encryptStoredSecrets,
   getAutoLockMinutes,
+  getBiometricUnlockEnabled,
+  getFailedUnlockState,
   getLastUnlockedTimestamp,
+  getPendingPasswordChange,
+  getVaultRecord,
   getWalletPasswordHash,
+  getWipeAfterFailures,
+  recordFailedUnlock,
+  resetFailedUnlocks,
+  saveVaultRecord,
   setAutoLockMinutes as persistAutoLockMinutes,
+  setBiometricUnlockEnabled,
   setLastUnlockedTimestamp,
   setWalletPasswordHash,
+  setWipeAfterFailures,
 } from '@/services/walletStorage';
-import { deleteWalletData } from './walletSlice';
+import { deleteWalletData, loadWalletFromStorage } from './walletSlice';
 
 const DEFAULT_AUTO_LOCK_MINUTES = 5;
+// Attempts allowed before backoff starts, then the delay doubles per failure
+const FREE_UNLOCK_ATTEMPTS = 3;
+const BASE_UNLOCK_DELAY_MS = 30 * 1000;
+const MAX_UNLOCK_DELAY_MS = 60 * 60 * 1000;
+
+export const WALLET_WIPED_MESSAGE = 'Too many failed attempts. Wallet data was erased from this device.';
 
 interface SecurityState {
   passwordSet: boolean;
   locked: boolean;
   autoLockMinutes: number;
   lastUnlockedAt: number | null;
+  failedAttempts: number;
+  lockoutUntil: number | null;
+  wipeAfterFailures: number | null;
+  biometricsAvailable: boolean;
+  biometricsEnabled: boolean;
+  biometricLabel: string;
   initializing: boolean;
   error: string | null;
 }
@@ -27,6 +61,12 @@ const initialState: SecurityState = {
   locked: false,
   autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
   lastUnlockedAt: null,
+  failedAttempts: 0,
+  lockoutUntil: null,
+  wipeAfterFailures: null,
+  biometricsAvailable: false,
+  biometricsEnabled: false,
+  biometricLabel: 'Biometrics',
   initializing: false,
   error: null,
 };
@@ -42,50 +82,143 @@ const isLocked = (passwordSet: boolean, lastUnlockedAt: number | null, autoLockM
   return elapsed >= autoLockMinutes * 60 * 1000;
 };
 
-export const initializeSecurity = createAsyncThunk('security/initialize', async () => {
-  const [passwordHash, storedAutoLock, lastUnlocked] = await Promise.all([
-    getWalletPasswordHash(),
-    getAutoLockMinutes(),
-    getLastUnlockedTimestamp(),
-  ]);
+export const getUnlockDelayMs = (failedAttempts: number) => {
+  if (failedAttempts < FREE_UNLOCK_ATTEMPTS) {
+    return 0;
+  }
+  const delay = BASE_UNLOCK_DELAY_MS * 2 ** (failedAttempts - FREE_UNLOCK_ATTEMPTS);
+  return Math.min(delay, MAX_UNLOCK_DELAY_MS);
+};
 
-  const passwordSet = Boolean(passwordHash);
-  const autoLockMinutes = storedAutoLock ?? DEFAULT_AUTO_LOCK_MINUTES;
-  const locked = isLocked(passwordSet, lastUnlocked, autoLockMinutes);
+const getLockoutUntil = (failedAttempts: number, lastFailedAt: number | null) => {
+  const delay = getUnlockDelayMs(failedAttempts);
+  return delay && lastFailedAt ? lastFailedAt + delay : null;
+};
 
-  return {
-    passwordSet,
-    autoLockMinutes,
-    lastUnlockedAt: lastUnlocked,
-    locked,
-  };
-});
+const formatWait = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
 
-export const refreshLockState = createAsyncThunk('security/refreshLockState', async () => {
-  const [passwordHash, storedAutoLock, lastUnlocked] = await Promise.all([
+/**
+ * Why a password can't be tried right now, or null. Every screen that takes the
+ * password shares one attempt counter, so none of them can be used to guess around it.
+ */
+const getLockoutMessage = async (): Promise<string | null> => {
+  const failedUnlock = await getFailedUnlockState();
+  const lockoutUntil = getLockoutUntil(failedUnlock.count, failedUnlock.lastFailedAt);
+  return lockoutUntil && lockoutUntil > Date.now()
+    ? `Too many attempts. Try again in ${formatWait(lockoutUntil - Date.now())}.`
+    : null;
+};
+
+/**
+ * Count a wrong password toward the backoff and the opt-in wipe. Returns the message to show.
+ */
+const handleWrongPassword = async (dispatch: ThunkDispatch<unknown, unknown, UnknownAction>): Promise<string> => {
+  const failed = await recordFailedUnlock();
+  const wipeAfterFailures = await getWipeAfterFailures();
+  if (wipeAfterFailures && failed.count >= wipeAfterFailures) {
+    await dispatch(deleteWalletData());
+    return WALLET_WIPED_MESSAGE;
+  }
+  await dispatch(refreshLockState());
+
+  const remaining = wipeAfterFailures ? wipeAfterFailures - failed.count : null;
+  if (remaining !== null && remaining <= 3) {
+    return `Incorrect password. Wallet will be erased after ${remaining} more failed attempt${remaining === 1 ? '' : 's'}.`;
+  }
+  return 'Incorrect password. Please try again.';
+};
+
+/**
+ * Finish or discard a password change that was interrupted before it was fully written.
+ * The journal is only dropped once the old password is confirmed, so a wrong guess
+ * cannot strand a half-applied change.
+ */
+const recoverPendingPasswordChange = async (password: string) => {
+  const pending = await getPendingPasswordChange();
+  if (!pending) {
+    return;
+  }
+
+  if ((await verifyPassword(pending.verifier, password)).valid) {
+    await applyPasswordChange(pending);
+    return;
+  }
+
+  const storedHash = await getWalletPasswordHash();
+  if (storedHash && storedHash !== pending.verifier && (await verifyPassword(storedHash, password)).valid) {
+    await clearPendingPasswordChange();
+  }
+};
+
+/**
+ * Secrets are only decrypted in memory, so a fresh app process starts locked
+ * even if the auto-lock window has not elapsed yet.
+ */
+const readLockState = async () => {
+  const authenticator = getBiometricAuthenticator();
+  const [
+    passwordHash,
+    storedAutoLock,
+    lastUnlocked,
+    failedUnlock,
+    wipeAfterFailures,
+    biometricsEnabled,
+    biometricsAvailable,
+    biometricLabel,
+  ] = await Promise.all([
     getWalletPasswordHash(),
     getAutoLockMinutes(),
     getLastUnlockedTimestamp(),
+    getFailedUnlockState(),
+    getWipeAfterFailures(),
+    getBiometricUnlockEnabled(),
+    authenticator.isAvailable(),
+    authenticator.getLabel(),
   ]);
 
   const passwordSet = Boolean(passwordHash);
   const autoLockMinutes = storedAutoLock ?? DEFAULT_AUTO_LOCK_MINUTES;
-  const locked = isLocked(passwordSet, lastUnlocked, autoLockMinutes);
+  const locked =
+    isLocked(passwordSet, lastUnlocked, autoLockMinutes) || (passwordSet && !isVaultUnlocked());
 
   return {
     passwordSet,
     autoLockMinutes,
     lastUnlockedAt: lastUnlocked,
     locked,
+    failedAttempts: failedUnlock.count,
+    lockoutUntil: getLockoutUntil(failedUnlock.count, failedUnlock.lastFailedAt),
+    wipeAfterFailures,
+    biometricsAvailable,
+    biometricsEnabled: biometricsEnabled && biometricsAvailable,
+    biometricLabel,
   };
+};
+
+export const initializeSecurity = createAsyncThunk('security/initialize', async () => {
+  return await readLockState();
+});
+
+export const refreshLockState = createAsyncThunk('security/refreshLockState', async () => {
+  return await readLockState();
 });
 
 export const setSecurityPassword = createAsyncThunk(
   'security/setPassword',
   async (password: string, { rejectWithValue }) => {
     try {
-      const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, password);
-      await setWalletPasswordHash(hash);
+      // Save the verifier before the vault so an interrupted setup is finished by the next unlock
+      await setWalletPasswordHash(await createPasswordVerifier(password));
+      await saveVaultRecord(await createVault(password));
+      await encryptStoredSecrets();
+      await resetFailedUnlocks();
       const now = Date.now();
       await setLastUnlockedTimestamp(now);
 
@@ -100,17 +233,38 @@ export const setSecurityPassword = createAsyncThunk(
 
 export const unlockWalletWithPassword = createAsyncThunk(
   'security/unlock',
-  async (password: string, { rejectWithValue }) => {
+  async (password: string, { dispatch, rejectWithValue }) => {
     try {
+      const lockoutMessage = await getLockoutMessage();
+      if (lockoutMessage) {
+        return rejectWithValue(lockoutMessage);
+      }
+
+      await recoverPendingPasswordChange(password);
       const storedHash = await getWalletPasswordHash();
       if (!storedHash) {
         return rejectWithValue('No password set. Please create one first.');
       }
 
-      const candidateHash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, password);
-      if (candidateHash !== storedHash) {
-        return rejectWithValue('Incorrect password. Please try again.');
+      const { valid, needsUpgrade } = await verifyPassword(storedHash, password);
+      if (!valid) {
+        return rejectWithValue(await handleWrongPassword(dispatch));
       }
+      await resetFailedUnlocks();
+
+      // Wallets saved before encryption get their vault on the first unlock
+      const vault = await getVaultRecord();
+      if (vault) {
+        await unlockVault(vault, password);
+      } else {
+        await saveVaultRecord(await createVault(password));
+      }
+      await encryptStoredSecrets();
+      // Legacy SHA-256 hashes and outdated KDF params are replaced now that we know the password
+      if (needsUpgrade) {
+        await setWalletPasswordHash(await createPasswordVerifier(password));
+      }
+      await dispatch(loadWalletFromStorage());
 
       const now = Date.now();
       await setLastUnlockedTimestamp(now);
@@ -123,6 +277,198 @@ export const unlockWalletWithPassword = createAsyncThunk(
   }
 );
 
+/**
+ * Unlock with the data key held in biometric-protected storage. Ends in the same
+ * state as a password unlock; the password remains the fallback.
+ */
+export const unlockWalletWithBiometrics = createAsyncThunk(
+  'security/unlockWithBiometrics',
+  async (_, { dispatch, rejectWithValue }) => {
+    try {
+      if (!(await getBiometricUnlockEnabled())) {
+        return rejectWithValue('Biometric unlock is not turned on.');
+      }
+
+      const unlockKey = await getBiometricAuthenticator().readUnlockKey('Unlock Alpaca Wallet');
+      if (!unlockKey) {
+        return rejectWithValue('Biometric unlock was cancelled. Enter your password instead.');
+      }
+
+      unlockVaultWithKey(unlockKey);
+      await resetFailedUnlocks();
+      await encryptStoredSecrets();
+      await dispatch(loadWalletFromStorage());
+
+      const now = Date.now();
+      await setLastUnlockedTimestamp(now);
+      return {
+        lastUnlockedAt: now,
+      };
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to unlock wallet');
+    }
+  }
+);
+
+/**
+ * Re-check the user before a sensitive action while already unlocked. Does not
+ * change the lock state; wrong passwords count toward the backoff and wipe like an unlock.
+ */
+export const confirmIdentity = createAsyncThunk(
+  'security/confirmIdentity',
+  async (
+    credentials: { password: string } | { biometric: true; prompt?: string },
+    { dispatch, rejectWithValue }
+  ) => {
+    try {
+      if ('biometric' in credentials) {
+        if (!(await getBiometricUnlockEnabled())) {
+          return rejectWithValue('Biometric unlock is not turned on.');
+        }
+        const confirmed = await getBiometricAuthenticator().authenticate(
+          credentials.prompt || 'Confirm it is you'
+        );
+        return confirmed ? true : rejectWithValue('Biometric check was cancelled. Enter your password instead.');
+      }
+
+      const lockoutMessage = await getLockoutMessage();
+      if (lockoutMessage) {
+        return rejectWithValue(lockoutMessage);
+      }
+
+      const storedHash = await getWalletPasswordHash();
+      if (!storedHash) {
+        return rejectWithValue('No password set. Please create one first.');
+      }
+      const { valid } = await verifyPassword(storedHash, credentials.password);
+      if (!valid) {
+        return rejectWithValue(await handleWrongPassword(dispatch));
+      }
+      await resetFailedUnlocks();
+      return true;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to confirm your identity');
+    }
+  }
+);
+
+/**
+ * Turn biometric unlock on or off. Enabling copies the unlocked data key into
+ * storage that only releases it after a successful biometric check.
+ */
+export const updateBiometricUnlock = createAsyncThunk(
+  'security/updateBiometricUnlock',
+  async (enabled: boolean, { rejectWithValue }) => {
+    try {
+      const authenticator = getBiometricAuthenticator();
+      if (!enabled) {
+        await authenticator.clearUnlockKey();
+        await setBiometricUnlockEnabled(false);
+        return false;
+      }
+
+      if (!(await authenticator.isAvailable())) {
+        return rejectWithValue('Biometric unlock is not available on this device.');
+      }
+      if (!isVaultUnlocked()) {
+        return rejectWithValue('Unlock your wallet before turning on biometric unlock.');
+      }
+      if (!(await authenticator.authenticate('Confirm to turn on biometric unlock'))) {
+        return rejectWithValue('Biometric check was cancelled.');
+      }
+
+      await authenticator.storeUnlockKey(exportSessionKey());
+      await setBiometricUnlockEnabled(true);
+      return true;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to update biometric unlock');
+    }
+  }
+);
+
+/**
+ * Change the password while unlocked. The data key is re-wrapped rather than
+ * replaced, so stored secrets do not need to be re-encrypted.
+ */
+export const changePassword = createAsyncThunk(
+  'security/changePassword',
+  async (
+    { currentPassword, newPassword }: { currentPassword: string; newPassword: string },
+    { dispatch, rejectWithValue }
+  ) => {
+    try {
+      const lockoutMessage = await getLockoutMessage();
+      if (lockoutMessage) {
+        return rejectWithValue(lockoutMessage);
+      }
+
+      const storedHash = await getWalletPasswordHash();
+      if (!storedHash) {
+        return rejectWithValue('No password set. Please create one first.');
+      }
+      if (!isVaultUnlocked()) {
+        return rejectWithValue('Unlock your wallet before changing the password.');
+      }
+
+      const { valid } = await verifyPassword(storedHash, currentPassword);
+      if (!valid) {
+        return rejectWithValue(await handleWrongPassword(dispatch));
+      }
+      await resetFailedUnlocks();
+
+      // Make sure every secret is under the data key before it is re-wrapped
+      await encryptStoredSecrets();
+      const [verifier, vault] = await Promise.all([
+        createPasswordVerifier(newPassword),
+        rewrapVault(newPassword),
+      ]);
+      await applyPasswordChange({ verifier, vault });
+
+      const now = Date.now();
+      await setLastUnlockedTimestamp(now);
+      return {
+        lastUnlockedAt: now,
+      };
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to change password');
+    }
+  }
+);
+
+/**
+ * Push the auto-lock deadline forward. Also called when the app goes to the
+ * background so the time spent away counts toward auto-lock.
+ */
+export const recordActivity = createAsyncThunk(
+  'security/recordActivity',
+  async () => {
+    const now = Date.now();
+    await setLastUnlockedTimestamp(now);
+    return now;
+  },
+  {
+    condition: (_, { getState }) => {
+      const { security } = getState() as { security: SecurityState };
+      return security.passwordSet && !security.locked;
+    },
+  }
+);
+
+/**
+ * Opt in to erasing the wallet after this many consecutive failed unlocks. Pass null to turn it off.
+ */
+export const updateWipeAfterFailures = createAsyncThunk(
+  'security/updateWipeAfterFailures',
+  async (attempts: number | null, { rejectWithValue }) => {
+    try {
+      await setWipeAfterFailures(attempts);
+      return attempts;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to update wipe setting');
+    }
+  }
+);
+
 export const updateAutoLockDuration = createAsyncThunk(
   'security/updateAutoLock',
   async (minutes: number, { rejectWithValue }) => {
@@ -149,6 +495,10 @@ const securitySlice = createSlice({
       state.locked = false;
       state.autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES;
       state.lastUnlockedAt = null;
+      state.failedAttempts = 0;
+      state.lockoutUntil = null;
+      state.wipeAfterFailures = null;
+      state.biometricsEnabled = false;
       state.error = null;
     },
   },
@@ -164,6 +514,12 @@ const securitySlice = createSlice({
         state.autoLockMinutes = action.payload.autoLockMinutes;
         state.lastUnlockedAt = action.payload.lastUnlockedAt || null;
         state.locked = action.payload.locked;
+        state.failedAttempts = action.payload.failedAttempts;
+        state.lockoutUntil = action.payload.lockoutUntil;
+        state.wipeAfterFailures = action.payload.wipeAfterFailures;
+        state.biometricsAvailable = action.payload.biometricsAvailable;
+        state.biometricsEnabled = action.payload.biometricsEnabled;
+        state.biometricLabel = action.payload.biometricLabel;
       })
       .addCase(initializeSecurity.rejected, (state, action) => {
         state.initializing = false;
@@ -174,6 +530,12 @@ const securitySlice = createSlice({
         state.autoLockMinutes = action.payload.autoLockMinutes;
         state.lastUnlockedAt = action.payload.lastUnlockedAt || null;
         state.locked = action.payload.locked;
+        state.failedAttempts = action.payload.failedAttempts;
+        state.lockoutUntil = action.payload.lockoutUntil;
+        state.wipeAfterFailures = action.payload.wipeAfterFailures;
+        state.biometricsAvailable = action.payload.biometricsAvailable;
+        state.biometricsEnabled = action.payload.biometricsEnabled;
+        state.biometricLabel = action.payload.biometricLabel;
       })
       .addCase(setSecurityPassword.pending, (state) => {
         state.error = null;
@@ -182,6 +544,8 @@ const securitySlice = createSlice({
         state.passwordSet = true;
         state.locked = false;
         state.lastUnlockedAt = action.payload.lastUnlockedAt;
+        state.failedAttempts = 0;
+        state.lockoutUntil = null;
       })
       .addCase(setSecurityPassword.rejected, (state, action) => {
         state.error = (action.payload as string) || action.error.message || 'Failed to save password';
@@ -189,10 +553,6 @@ const securitySlice = createSlice({
       .addCase(unlockWalletWithPassword.pending, (state) => {
         state.error = null;
       })
-      .addCase(unlockWalletWithPassword.fulfilled, (state, action) => {
-        state.locked = false;
-        state.lastUnlockedAt = action.payload.lastUnlockedAt;
-      })
       .addCase(unlockWalletWithPassword.rejected, (state, action) => {
         state.error =
           (action.payload as string) || action.error.message || 'Failed to unlock wallet';
@@ -201,6 +561,44 @@ const securitySlice = createSlice({
         state.autoLockMinutes = action.payload;
         state.locked = isLocked(state.passwordSet, state.lastUnlockedAt, state.autoLockMinutes);
       })
+      .addCase(unlockWalletWithBiometrics.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(unlockWalletWithBiometrics.rejected, (state, action) => {
+        state.error =
+          (action.payload as string) || action.error.message || 'Failed to unlock wallet';
+      })
+      .addCase(confirmIdentity.fulfilled, (state) => {
+        state.failedAttempts = 0;
+        state.lockoutUntil = null;
+      })
+      .addCase(updateBiometricUnlock.fulfilled, (state, action) => {
+        state.biometricsEnabled = action.payload;
+      })
+      .addCase(updateBiometricUnlock.rejected, (state, action) => {
+        state.error =
+          (action.payload as string) || action.error.message || 'Failed to update biometric unlock';
+      })
+      .addCase(changePassword.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(changePassword.fulfilled, (state, action) => {
+        state.lastUnlockedAt = action.payload.lastUnlockedAt;
+      })
+      .addCase(changePassword.rejected, (state, action) => {
+        state.error =
+          (action.payload as string) || action.error.message || 'Failed to change password';
+      })
+      .addCase(recordActivity.fulfilled, (state, action) => {
+        state.lastUnlockedAt = action.payload;
+      })
+      .addCase(updateWipeAfterFailures.fulfilled, (state, action) => {
+        state.wipeAfterFailures = action.payload;
+      })
+      .addCase(updateWipeAfterFailures.rejected, (state, action) => {
+        state.error =
+          (action.payload as string) || action.error.message || 'Failed to update wipe setting';
+      })
       .addCase(updateAutoLockDuration.rejected, (state, action) => {
         state.error =
           (action.payload as string) || action.error.message || 'Failed to update auto-lock';
@@ -210,7 +608,21 @@ const securitySlice = createSlice({
         state.locked = false;
         state.autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES;
         state.lastUnlockedAt = null;
-      });
+        state.failedAttempts = 0;
+        state.lockoutUntil = null;
+        state.wipeAfterFailures = null;
+        state.biometricsEnabled = false;
+      })
+      // Both unlock paths end in the same state
+      .addMatcher(
+        isAnyOf(unlockWalletWithPassword.fulfilled, unlockWalletWithBiometrics.fulfilled),
+        (state, action) => {
+          state.locked = false;
+          state.lastUnlockedAt = action.payload.lastUnlockedAt;
+          state.failedAttempts = 0;
+          state.lockoutUntil = null;
+        }
+      );
   },
 });
 
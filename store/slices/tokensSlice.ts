@@ -0,0 +1,173 @@
+import {
+  fetchTokenMetadata,
+  isMetadataStale,
+  loadCachedTokenMetadata,
+  saveTokenMetadata,
+  TokenMetadata,
+  TokenMetadataMap,
+} from '@/services/tokenMetadata';
+import { DEFAULT_NETWORK, getApiNetwork } from '@/services/api';
+import { describeError } from '@/services/errors';
+import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+
+import { loadNetworkSetting, resolveNetworkName, updateNetworkSetting } from './networkSlice';
+import { deleteWalletData } from './walletSlice';
+
+export type { TokenMetadata, TokenMetadataMap } from '@/services/tokenMetadata';
+
+interface TokensState {
+  // Metadata for the network below only
+  metadata: TokenMetadataMap;
+  network: string;
+  cacheLoaded: boolean;
+  // Tokens being looked up, and why a lookup failed for tokens we still know nothing about
+  resolving: string[];
+  failed: { [address: string]: string };
+}
+
+const initialState: TokensState = {
+  metadata: {},
+  network: DEFAULT_NETWORK,
+  cacheLoaded: false,
+  resolving: [],
+  failed: {},
+};
+
+const selectTokensState = (state: unknown) => (state as { tokens: TokensState }).tokens;
+
+export const selectTokenMetadata = (state: { tokens: TokensState }) => state.tokens.metadata;
+
+export const selectTokenResolving = (state: { tokens: TokensState }, address: string) =>
+  state.tokens.resolving.includes(address);
+
+/**
+ * Why a token's metadata could not be loaded, if it failed and nothing is known about it
+ */
+export const selectTokenLookupError = (state: { tokens: TokensState }, address: string) =>
+  state.tokens.failed[address] || null;
+
+/**
+ * Make sure metadata is known for these tokens. Reads the on-device cache first and
+ * only asks the node for tokens that are missing or stale.
+ */
+export const resolveTokenMetadata = createAsyncThunk(
+  'tokens/resolve',
+  async (addresses: string[], { getState }) => {
+    const network = getApiNetwork();
+    const tokensState = selectTokensState(getState());
+    const sameNetwork = tokensState.network === network;
+    const known: TokenMetadataMap =
+      sameNetwork && tokensState.cacheLoaded
+        ? { ...tokensState.metadata }
+        : { ...(await loadCachedTokenMetadata(network)), ...(sameNetwork ? tokensState.metadata : {}) };
+
+    const wanted = Array.from(new Set(addresses.filter(Boolean)));
+    const stale = wanted.filter((address) => isMetadataStale(known[address]));
+
+    const failed: { [address: string]: string } = {};
+    const fetched = await Promise.all(
+      stale.map(async (address) => {
+        try {
+          return await fetchTokenMetadata(address);
+        } catch (error) {
+          console.error(`Error loading metadata for ${address}:`, error);
+          // Outdated details are still usable; only a token we know nothing about has failed
+          if (!known[address]) {
+            failed[address] = describeError(error, 'Failed to load token info');
+          }
+          return null;
+        }
+      })
+    );
+    fetched.forEach((metadata) => {
+      if (metadata) {
+        known[metadata.address] = metadata;
+      }
+    });
+
+    if (fetched.some(Boolean)) {
+      await saveTokenMetadata(network, known);
+    }
+    return { network, metadata: known, failed };
+  }
+);
+
+/**
+ * Record metadata we already know, e.g. right after creating a token
+ */
+export const rememberTokenMetadata = createAsyncThunk(
+  'tokens/remember',
+  async (metadata: Omit<TokenMetadata, 'updatedAt'>, { getState }) => {
+    const network = getApiNetwork();
+    const tokensState = selectTokensState(getState());
+    const known = {
+      ...(await loadCachedTokenMetadata(network)),
+      ...(tokensState.network === network ? tokensState.metadata : {}),
+    };
+    known[metadata.address] = { ...metadata, updatedAt: Date.now() };
+    await saveTokenMetadata(network, known);
+    return { network, metadata: known };
+  }
+);
+
+const switchNetwork = (state: TokensState, network: string) => {
+  if (state.network !== network) {
+    state.network = network;
+    state.metadata = {};
+    state.cacheLoaded = false;
+    state.failed = {};
+  }
+};
+
+const applyMetadata = (state: TokensState, metadata: TokenMetadataMap) => {
+  state.metadata = { ...state.metadata, ...metadata };
+  Object.keys(metadata).forEach((address) => {
+    delete state.failed[address];
+  });
+  state.cacheLoaded = true;
+};
+
+const tokensSlice = createSlice({
+  name: 'tokens',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadNetworkSetting.fulfilled, (state, action) => {
+        if (action.payload) {
+          switchNetwork(state, resolveNetworkName(action.payload));
+        }
+      })
+      .addCase(updateNetworkSetting.fulfilled, (state, action) => {
+        switchNetwork(state, resolveNetworkName(action.payload));
+      })
+      .addCase(resolveTokenMetadata.pending, (state, action) => {
+        state.resolving = Array.from(new Set([...state.resolving, ...action.meta.arg]));
+      })
+      .addCase(resolveTokenMetadata.fulfilled, (state, action) => {
+        state.resolving = state.resolving.filter((address) => !action.meta.arg.includes(address));
+        // Answers for a network the user has since left
+        if (action.payload.network !== state.network) {
+          return;
+        }
+        applyMetadata(state, action.payload.metadata);
+        state.failed = { ...state.failed, ...action.payload.failed };
+      })
+      .addCase(resolveTokenMetadata.rejected, (state, action) => {
+        state.resolving = state.resolving.filter((address) => !action.meta.arg.includes(address));
+      })
+      .addCase(rememberTokenMetadata.fulfilled, (state, action) => {
+        if (action.payload.network === state.network) {
+          applyMetadata(state, action.payload.metadata);
+        }
+      })
+      .addCase(deleteWalletData.fulfilled, (state) => {
+        state.metadata = {};
+        state.cacheLoaded = false;
+        state.resolving = [];
+        state.failed = {};
+      });
+  },
+});
+
+export default tokensSlice.reducer;
@@ -1,6 +1,26 @@
-import { walletApi } from '@/services/api';
-import { deleteWallet, getWallet, saveWallet } from '@/services/walletStorage';
-import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { parseAddressOfKind } from '@/services/address';
+import { normalizeAmount } from '@/services/amount';
+import { getApiNetwork, walletApi } from '@/services/api';
+import { describeError } from '@/services/errors';
+import { accountFromPrivateKey, accountFromSeed, generateMnemonic, seedFromMnemonic } from '@/services/keyring';
+import { readCache, writeCache } from '@/services/localCache';
+import {
+  addWalletAccount,
+  deleteWallet,
+  getAccounts,
+  getAccountWallet,
+  getActiveAccountId,
+  NetworkSetting,
+  removeWalletAccount,
+  renameWalletAccount,
+  setActiveAccountId,
+  WalletAccount,
+} from '@/services/walletStorage';
+import { createAsyncThunk, createSlice, isAnyOf, PayloadAction } from '@reduxjs/toolkit';
+
+import { resolveNetworkName } from './networkSlice';
+
+export type { WalletAccount } from '@/services/walletStorage';
 
 export interface WalletData {
   address: string;
@@ -15,90 +35,138 @@ export interface Token {
   balance: string;
 }
 
+export interface AccountBalance {
+  // Base-unit integer string, see services/amount
+  balance: string;
+  tokens: Token[];
+  // When the node last confirmed these numbers; null before the first fetch
+  updatedAt: number | null;
+}
+
+/**
+ * Outcome of the latest balance fetch for one address on one network
+ */
+export interface BalanceRequestState {
+  requestId: string | null;
+  loading: boolean;
+  error: string | null;
+  // The fetch failed and the balance on screen is the last known one
+  stale: boolean;
+}
+
 interface WalletState {
+  accounts: WalletAccount[];
+  activeAccountId: string | null;
   walletData: WalletData | null;
-  balance: number;
-  tokens: Token[];
+  // Balances per network, then per address, so switching networks never mixes them
+  balances: { [network: string]: { [address: string]: AccountBalance } };
+  balanceRequests: { [network: string]: { [address: string]: BalanceRequestState } };
   loading: boolean;
   error: string | null;
   refreshing: boolean;
 }
 
+interface WalletSnapshot {
+  accounts: WalletAccount[];
+  activeAccountId: string | null;
+  walletData: WalletData | null;
+}
+
 const initialState: WalletState = {
+  accounts: [],
+  activeAccountId: null,
   walletData: null,
-  balance: 0,
-  tokens: [],
+  balances: {},
+  balanceRequests: {},
   loading: false,
   error: null,
   refreshing: false,
 };
 
+const EMPTY_BALANCE: AccountBalance = { balance: '0', tokens: [], updatedAt: null };
+const IDLE_BALANCE_REQUEST: BalanceRequestState = { requestId: null, loading: false, error: null, stale: false };
+
+// Last known balance per network and address, shown while offline
+const balanceCacheKey = (network: string, address: string) => `balance_${network}_${address}`;
+
+// Stop scanning after this many consecutive derived accounts without funds
+const DISCOVERY_GAP_LIMIT = 3;
+const MAX_DISCOVERY_ACCOUNTS = 20;
+
 /**
- * Normalize balance value to string representation
- * KeetaNetwork uses whole units (BigInt) directly, not decimal-based units
- * @param balance - Balance value (string, number, or null)
- * @param balanceHex - Optional hex balance value
- * @returns String representation of the balance as whole units
+ * Account derived from a mnemonic during import discovery
  */
-const normalizeBalanceValue = (balance?: string | number | null, balanceHex?: string): string => {
-  const rawValue = balance ?? balanceHex;
-  if (rawValue === undefined || rawValue === null) {
-    return '0';
-  }
+export interface DiscoveredAccount {
+  index: number;
+  address: string;
+  balance: string;
+  tokenCount: number;
+  hasFunds: boolean;
+}
 
-  try {
-    let bigintValue: bigint;
-    if (typeof rawValue === 'number') {
-      bigintValue = BigInt(Math.trunc(rawValue));
-    } else if (typeof rawValue === 'string') {
-      const trimmed = rawValue.trim();
-      if (!trimmed) {
-        return '0';
-      }
-      // Handle hex values (0x prefix) or decimal strings
-      bigintValue = trimmed.startsWith('0x') ? BigInt(trimmed) : BigInt(trimmed);
-    } else if (typeof rawValue === 'bigint') {
-      bigintValue = rawValue;
-    } else {
-      return '0';
-    }
+/**
+ * Balance and tokens of the active account on the selected network
+ */
+export const selectActiveBalance = (state: {
+  wallet: WalletState;
+  network: NetworkSetting;
+}): AccountBalance => {
+  const address = state.wallet.walletData?.address;
+  return (address && state.wallet.balances[resolveNetworkName(state.network)]?.[address]) || EMPTY_BALANCE;
+};
 
-    // KeetaNetwork uses whole units directly, no decimal conversion needed
-    return bigintValue.toString();
-  } catch {
-    return '0';
-  }
+/**
+ * Loading and error state of the active account's balance fetch on the selected network
+ */
+export const selectActiveBalanceRequest = (state: {
+  wallet: WalletState;
+  network: NetworkSetting;
+}): BalanceRequestState => {
+  const address = state.wallet.walletData?.address;
+  return (
+    (address && state.wallet.balanceRequests[resolveNetworkName(state.network)]?.[address]) || IDLE_BALANCE_REQUEST
+  );
+};
+
+/**
+ * Read the account list, active account and its wallet data from storage
+ */
+const readWalletSnapshot = async (): Promise<WalletSnapshot> => {
+  const accounts = await getAccounts();
+  const activeAccountId = await getActiveAccountId();
+  const walletData = activeAccountId ? await getAccountWallet(activeAccountId) : null;
+  return { accounts, activeAccountId, walletData };
 };
 
 // Async thunks
 export const loadWalletFromStorage = createAsyncThunk(
   'wallet/loadFromStorage',
   async () => {
-    const wallet = await getWallet();
-    return wallet;
+    return await readWalletSnapshot();
   }
 );
 
 export const createWallet = createAsyncThunk(
   'wallet/create',
-  async (_, { rejectWithValue }) => {
+  async (name: string | undefined, { rejectWithValue }) => {
     try {
-      const response = await walletApi.createWallet();
-      if (response.success && response.data) {
-        console.log('response.data', response.data);
-        // Save to secure storage
-        await saveWallet({
-          address: response.data.address,
-          mnemonic: response.data.mnemonic,
-          seed: response.data.seed,
-          publicKey: response.data.publicKey,
-          privateKey: response.data.privateKey,
-        });
-        return response.data;
-      }
-      throw new Error('Failed to create wallet');
+      // Keys are generated on the device; nothing secret is sent to the backend
+      const mnemonic = generateMnemonic();
+      const seed = seedFromMnemonic(mnemonic);
+      const account = accountFromSeed(seed, 0);
+      await addWalletAccount(
+        {
+          address: account.address,
+          mnemonic,
+          seed,
+          publicKey: account.publicKey,
+          privateKey: account.privateKey,
+        },
+        { name, derivationIndex: 0 }
+      );
+      return await readWalletSnapshot();
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to create wallet');
+      return rejectWithValue(error.message || 'Failed to create wallet');
     }
   }
 );
@@ -107,77 +175,258 @@ export const importWalletFromSeed = createAsyncThunk(
   'wallet/importFromSeed',
   async (seed: string, { rejectWithValue }) => {
     try {
-      const response = await walletApi.importWalletFromSeed(seed);
-      if (response.success && response.data) {
-        // Save to secure storage
-        await saveWallet({
-          address: response.data.address,
-          publicKey: response.data.publicKey,
-          seed: seed,
-        });
-        return response.data;
-      }
-      throw new Error('Failed to import wallet');
+      const account = accountFromSeed(seed, 0);
+      // Save to secure storage as a new account
+      await addWalletAccount(
+        {
+          address: account.address,
+          publicKey: account.publicKey,
+          seed: seed.trim(),
+          privateKey: account.privateKey,
+        },
+        { derivationIndex: 0 }
+      );
+      return await readWalletSnapshot();
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to import wallet');
+      return rejectWithValue(error.message || 'Failed to import wallet');
     }
   }
 );
 
 export const importWalletFromMnemonic = createAsyncThunk(
   'wallet/importFromMnemonic',
+  async ({ mnemonic, indices = [0] }: { mnemonic: string; indices?: number[] }, { rejectWithValue }) => {
+    try {
+      const seed = seedFromMnemonic(mnemonic);
+      const existing = await getAccounts();
+      let keyringId: string | undefined;
+      let firstAccountId: string | null = null;
+
+      for (const index of [...indices].sort((a, b) => a - b)) {
+        const derived = accountFromSeed(seed, index);
+        const match = existing.find((account) => account.address === derived.address);
+        if (match) {
+          // Already imported; keep new siblings in the same keyring
+          keyringId = keyringId || match.keyringId;
+          continue;
+        }
+
+        // Save to secure storage as a new account
+        const account = await addWalletAccount(
+          {
+            address: derived.address,
+            publicKey: derived.publicKey,
+            mnemonic: mnemonic.trim(),
+            seed,
+            privateKey: derived.privateKey,
+          },
+          { keyringId, derivationIndex: index }
+        );
+        keyringId = account.keyringId;
+        firstAccountId = firstAccountId || account.id;
+      }
+
+      if (!firstAccountId) {
+        throw new Error('These accounts are already in your wallet');
+      }
+      await setActiveAccountId(firstAccountId);
+      return await readWalletSnapshot();
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to import wallet');
+    }
+  }
+);
+
+/**
+ * Derive accounts from a mnemonic and report which of them hold funds
+ */
+export const discoverMnemonicAccounts = createAsyncThunk(
+  'wallet/discoverMnemonicAccounts',
   async (mnemonic: string, { rejectWithValue }) => {
     try {
-      const response = await walletApi.importWalletFromMnemonic(mnemonic);
-      if (response.success && response.data) {
-        // Save to secure storage
-        await saveWallet({
-          address: response.data.address,
-          publicKey: response.data.publicKey,
-          mnemonic: mnemonic,
-          seed: response.data.privateKey || response.data.seed,
-          privateKey: response.data.privateKey || response.data.seed,
-        });
-        return response.data;
+      const seed = seedFromMnemonic(mnemonic);
+      const discovered: DiscoveredAccount[] = [];
+      let emptyStreak = 0;
+
+      for (let index = 0; index < MAX_DISCOVERY_ACCOUNTS && emptyStreak < DISCOVERY_GAP_LIMIT; index++) {
+        const { address } = accountFromSeed(seed, index);
+
+        // An account we couldn't check is not an empty one; stop rather than skip past funds
+        let response;
+        try {
+          response = await walletApi.getAccountBalance(address);
+        } catch (error) {
+          throw new Error(`Couldn't check account #${index} for funds: ${describeError(error, 'network error')}`);
+        }
+        if (!response.success || !response.data) {
+          throw new Error(`Couldn't check account #${index} for funds: ${response.message || 'unexpected response'}`);
+        }
+        const balance = normalizeAmount(response.data.totalBalance);
+        const tokenCount = (response.data.tokens || []).filter(
+          (token: any) => normalizeAmount(token.balance, token.balanceHex) !== '0'
+        ).length;
+
+        const hasFunds = balance !== '0' || tokenCount > 0;
+        emptyStreak = hasFunds ? 0 : emptyStreak + 1;
+        discovered.push({ index, address, balance, tokenCount, hasFunds });
+      }
+
+      return discovered;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to discover accounts');
+    }
+  }
+);
+
+/**
+ * Derive the next unused account index from the active account's mnemonic
+ */
+export const addDerivedAccount = createAsyncThunk(
+  'wallet/addDerivedAccount',
+  async (_, { rejectWithValue }) => {
+    try {
+      const accounts = await getAccounts();
+      const activeAccountId = await getActiveAccountId();
+      const activeAccount = accounts.find((account) => account.id === activeAccountId);
+      const activeWallet = activeAccountId ? await getAccountWallet(activeAccountId) : null;
+      const seed = activeWallet?.mnemonic ? seedFromMnemonic(activeWallet.mnemonic) : activeWallet?.seed;
+      if (!activeAccount?.keyringId || !seed) {
+        throw new Error('This account was not created from a recovery phrase');
       }
-      throw new Error('Failed to import wallet');
+
+      const siblings = accounts.filter((account) => account.keyringId === activeAccount.keyringId);
+      const nextIndex = Math.max(...siblings.map((account) => account.derivationIndex ?? 0)) + 1;
+      const derived = accountFromSeed(seed, nextIndex);
+
+      await addWalletAccount(
+        {
+          address: derived.address,
+          publicKey: derived.publicKey,
+          mnemonic: activeWallet?.mnemonic,
+          seed,
+          privateKey: derived.privateKey,
+        },
+        { keyringId: activeAccount.keyringId, derivationIndex: nextIndex }
+      );
+      return await readWalletSnapshot();
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to add account');
+    }
+  }
+);
+
+export const importWalletFromPrivateKey = createAsyncThunk(
+  'wallet/importFromPrivateKey',
+  async (privateKey: string, { rejectWithValue }) => {
+    try {
+      const account = accountFromPrivateKey(privateKey);
+      // Save to secure storage as a new account
+      await addWalletAccount({
+        address: account.address,
+        publicKey: account.publicKey,
+        privateKey: account.privateKey,
+      });
+      return await readWalletSnapshot();
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to import wallet');
+    }
+  }
+);
+
+/**
+ * Follow an account by address alone, without any key to sign with
+ */
+export const importWatchOnlyAccount = createAsyncThunk(
+  'wallet/importWatchOnly',
+  async ({ address, name }: { address: string; name?: string | null }, { rejectWithValue }) => {
+    try {
+      const parsed = parseAddressOfKind(address, 'account');
+      await addWalletAccount({ address: parsed.address }, { name: name || undefined, watchOnly: true });
+      return await readWalletSnapshot();
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to import wallet');
+      return rejectWithValue(error.message || 'Failed to add watch-only account');
     }
   }
 );
 
-export const fetchAccountBalance = createAsyncThunk(
+export const switchAccount = createAsyncThunk(
+  'wallet/switchAccount',
+  async (accountId: string, { rejectWithValue }) => {
+    try {
+      await setActiveAccountId(accountId);
+      return await readWalletSnapshot();
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to switch account');
+    }
+  }
+);
+
+export const renameAccount = createAsyncThunk(
+  'wallet/renameAccount',
+  async ({ accountId, name }: { accountId: string; name: string }, { rejectWithValue }) => {
+    try {
+      return await renameWalletAccount(accountId, name);
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to rename account');
+    }
+  }
+);
+
+export const removeAccount = createAsyncThunk(
+  'wallet/removeAccount',
+  async (accountId: string, { rejectWithValue }) => {
+    try {
+      await removeWalletAccount(accountId);
+      return await readWalletSnapshot();
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to remove account');
+    }
+  }
+);
+
+export const fetchAccountBalance = createAsyncThunk<
+  { network: string; data: AccountBalance },
+  string,
+  { rejectValue: string; pendingMeta: { network: string }; rejectedMeta: { network: string } }
+>(
   'wallet/fetchBalance',
-  async (address: string, { rejectWithValue }) => {
+  async (address, { rejectWithValue }) => {
+    // Captured up front so a network switch mid-request files the result correctly
+    const network = getApiNetwork();
     try {
       const response = await walletApi.getAccountBalance(address);
       if (response.success && response.data) {
-        const normalizedTotal = normalizeBalanceValue(response.data.totalBalance);
         // Transform tokens from API format to our Token interface
         const transformedTokens = (response.data.tokens || []).map((token: any) => ({
           address: token.token || token.address,
-          balance: normalizeBalanceValue(token.balance, token.balanceHex),
+          balance: normalizeAmount(token.balance, token.balanceHex),
         }));
-        // Parse as float for display, but keep as string in tokens array for precision
-        // KeetaNetwork uses whole units, so we can safely parse for display
-        const totalBalanceNum = parseFloat(normalizedTotal) || 0;
-        return {
-          balance: totalBalanceNum,
+        const data: AccountBalance = {
+          balance: normalizeAmount(response.data.totalBalance),
           tokens: transformedTokens,
+          updatedAt: Date.now(),
         };
+        await writeCache(balanceCacheKey(network, address), data);
+        return { network, data };
       }
       throw new Error('Failed to fetch balance');
-    } catch (error: any) {
-      // Don't reject, just return empty data
-      return {
-        balance: 0,
-        tokens: [],
-      };
+    } catch (error) {
+      // Rejecting keeps the last known balance instead of showing zero
+      return rejectWithValue(describeError(error, 'Failed to fetch balance'), { network });
     }
-  }
+  },
+  // Read when the request starts, which is also when the thunk above captures it
+  { getPendingMeta: () => ({ network: getApiNetwork() }) }
 );
 
+/**
+ * Show the last known balance right away, e.g. when starting offline
+ */
+export const loadCachedBalance = createAsyncThunk('wallet/loadCachedBalance', async (address: string) => {
+  const network = getApiNetwork();
+  return { network, data: await readCache<AccountBalance>(balanceCacheKey(network, address)) };
+});
+
 export const deleteWalletData = createAsyncThunk(
   'wallet/delete',
   async (_, { rejectWithValue }) => {
@@ -190,16 +439,32 @@ export const deleteWalletData = createAsyncThunk(
   }
 );
 
+const applySnapshot = (state: WalletState, snapshot: WalletSnapshot) => {
+  state.accounts = snapshot.accounts;
+  state.activeAccountId = snapshot.activeAccountId;
+  state.walletData = snapshot.walletData;
+};
+
 const walletSlice = createSlice({
   name: 'wallet',
   initialState,
   reducers: {
     clearWallet: (state) => {
+      state.accounts = [];
+      state.activeAccountId = null;
       state.walletData = null;
-      state.balance = 0;
-      state.tokens = [];
+      state.balances = {};
+      state.balanceRequests = {};
       state.error = null;
     },
+    clearWalletSecrets: (state) => {
+      if (state.walletData) {
+        state.walletData = {
+          address: state.walletData.address,
+          publicKey: state.walletData.publicKey,
+        };
+      }
+    },
     setRefreshing: (state, action: PayloadAction<boolean>) => {
       state.refreshing = action.payload;
     },
@@ -216,91 +481,85 @@ const walletSlice = createSlice({
       })
       .addCase(loadWalletFromStorage.fulfilled, (state, action) => {
         state.loading = false;
-        state.walletData = action.payload;
+        applySnapshot(state, action.payload);
       })
       .addCase(loadWalletFromStorage.rejected, (state, action) => {
         state.loading = false;
         state.error = action.error.message || 'Failed to load wallet';
       });
 
-    // Create wallet
+    // Account management
     builder
-      .addCase(createWallet.pending, (state) => {
-        state.loading = true;
-        state.error = null;
+      .addCase(switchAccount.fulfilled, (state, action) => {
+        applySnapshot(state, action.payload);
       })
-      .addCase(createWallet.fulfilled, (state, action) => {
-        state.loading = false;
-        state.walletData = {
-          address: action.payload.address,
-          mnemonic: action.payload.mnemonic,
-          seed: action.payload.seed,
-          publicKey: action.payload.publicKey,
-          privateKey: action.payload.privateKey,
-        };
-      })
-      .addCase(createWallet.rejected, (state, action) => {
-        state.loading = false;
+      .addCase(switchAccount.rejected, (state, action) => {
         state.error = action.payload as string;
-      });
-
-    // Import from seed
-    builder
-      .addCase(importWalletFromSeed.pending, (state) => {
-        state.loading = true;
-        state.error = null;
       })
-      .addCase(importWalletFromSeed.fulfilled, (state, action) => {
-        state.loading = false;
-        state.walletData = {
-          address: action.payload.address,
-          publicKey: action.payload.publicKey,
-          seed: action.meta.arg,
-        };
+      .addCase(renameAccount.fulfilled, (state, action) => {
+        state.accounts = action.payload;
       })
-      .addCase(importWalletFromSeed.rejected, (state, action) => {
-        state.loading = false;
+      .addCase(renameAccount.rejected, (state, action) => {
         state.error = action.payload as string;
-      });
-
-    // Import from mnemonic
-    builder
-      .addCase(importWalletFromMnemonic.pending, (state) => {
-        state.loading = true;
-        state.error = null;
       })
-      .addCase(importWalletFromMnemonic.fulfilled, (state, action) => {
-        state.loading = false;
-        state.walletData = {
-          address: action.payload.address,
-          publicKey: action.payload.publicKey,
-          seed: action.payload.privateKey || action.payload.seed,
-          mnemonic: action.meta.arg,
-        };
+      .addCase(removeAccount.fulfilled, (state, action) => {
+        const removed = state.accounts.find((account) => account.id === action.meta.arg);
+        if (removed) {
+          [state.balances, state.balanceRequests].forEach((byNetwork) =>
+            Object.values(byNetwork).forEach((byAddress) => {
+              delete byAddress[removed.address];
+            })
+          );
+        }
+        applySnapshot(state, action.payload);
       })
-      .addCase(importWalletFromMnemonic.rejected, (state, action) => {
-        state.loading = false;
+      .addCase(removeAccount.rejected, (state, action) => {
         state.error = action.payload as string;
       });
 
     // Fetch balance
     builder
-      .addCase(fetchAccountBalance.pending, (state) => {
-        if (!state.refreshing) {
-          state.loading = true;
-        }
-        state.error = null;
+      .addCase(fetchAccountBalance.pending, (state, action) => {
+        const { network, requestId, arg: address } = action.meta;
+        const previous = state.balanceRequests[network]?.[address] || IDLE_BALANCE_REQUEST;
+        state.balanceRequests[network] = {
+          ...state.balanceRequests[network],
+          [address]: { ...previous, requestId, loading: true },
+        };
       })
       .addCase(fetchAccountBalance.fulfilled, (state, action) => {
-        state.loading = false;
         state.refreshing = false;
-        state.balance = action.payload.balance;
-        state.tokens = action.payload.tokens;
+        const { network, data } = action.payload;
+        const address = action.meta.arg;
+        // A newer fetch for the same account already took over
+        if (state.balanceRequests[network]?.[address]?.requestId !== action.meta.requestId) {
+          return;
+        }
+        state.balances[network] = { ...state.balances[network], [address]: data };
+        state.balanceRequests[network][address] = { ...IDLE_BALANCE_REQUEST, requestId: action.meta.requestId };
       })
-      .addCase(fetchAccountBalance.rejected, (state) => {
-        state.loading = false;
+      .addCase(fetchAccountBalance.rejected, (state, action) => {
         state.refreshing = false;
-        // Don't set error, just keep existing balance
+        const { network, requestId, arg: address } = action.meta;
+        const request = network && state.balanceRequests[network]?.[address];
+        if (!network || !request || request.requestId !== requestId) {
+          return;
+        }
+        // Keep whatever balance is on screen, flagged, instead of replacing it with zero
+        request.loading = false;
+        request.error = action.payload || action.error.message || 'Failed to fetch balance';
+        request.stale = Boolean(state.balances[network]?.[address]);
+      })
+      .addCase(loadCachedBalance.fulfilled, (state, action) => {
+        const { network, data } = action.payload;
+        // Never overwrite a balance the node already returned
+        if (data && !state.balances[network]?.[action.meta.arg]) {
+          state.balances[network] = { ...state.balances[network], [action.meta.arg]: data };
+          const request = state.balanceRequests[network]?.[action.meta.arg];
+          if (request?.error) {
+            request.stale = true;
+          }
+        }
       });
 
     builder
@@ -310,17 +569,63 @@ const walletSlice = createSlice({
       })
       .addCase(deleteWalletData.fulfilled, (state) => {
         state.loading = false;
+        state.accounts = [];
+        state.activeAccountId = null;
         state.walletData = null;
-        state.balance = 0;
-        state.tokens = [];
+        state.balances = {};
+        state.balanceRequests = {};
       })
       .addCase(deleteWalletData.rejected, (state, action) => {
         state.loading = false;
         state.error = action.payload as string;
       });
+
+    // Create and import add a new account and make it active
+    builder
+      .addMatcher(
+        isAnyOf(
+          createWallet.pending,
+          importWalletFromSeed.pending,
+          importWalletFromMnemonic.pending,
+          importWalletFromPrivateKey.pending,
+          importWatchOnlyAccount.pending,
+          addDerivedAccount.pending
+        ),
+        (state) => {
+          state.loading = true;
+          state.error = null;
+        }
+      )
+      .addMatcher(
+        isAnyOf(
+          createWallet.fulfilled,
+          importWalletFromSeed.fulfilled,
+          importWalletFromMnemonic.fulfilled,
+          importWalletFromPrivateKey.fulfilled,
+          importWatchOnlyAccount.fulfilled,
+          addDerivedAccount.fulfilled
+        ),
+        (state, action) => {
+          state.loading = false;
+          applySnapshot(state, action.payload);
+        }
+      )
+      .addMatcher(
+        isAnyOf(
+          createWallet.rejected,
+          importWalletFromSeed.rejected,
+          importWalletFromMnemonic.rejected,
+          importWalletFromPrivateKey.rejected,
+          importWatchOnlyAccount.rejected,
+          addDerivedAccount.rejected
+        ),
+        (state, action) => {
+          state.loading = false;
+          state.error = action.payload as string;
+        }
+      );
   },
 });
 
-export const { clearWallet, setRefreshing, clearError } = walletSlice.actions;
+export const { clearWallet, clearWalletSecrets, setRefreshing, clearError } = walletSlice.actions;
 export default walletSlice.reducer;
-